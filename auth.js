@@ -0,0 +1,133 @@
+// Authentication: HS256 JWTs signed by the host platform with a shared secret (JWT_SECRET),
+// and per-user API keys for programmatic access
+import crypto from 'crypto'
+import { apiKeyDb } from './database.js'
+
+const JWT_SECRET = process.env.JWT_SECRET || ''
+const JWT_ISSUER = process.env.JWT_ISSUER || null // Checked against `iss` when set
+const JWT_AUDIENCE = process.env.JWT_AUDIENCE || null // Checked against `aud` when set
+
+// Allowed clock skew for `exp` / `nbf`, in seconds
+const CLOCK_TOLERANCE = 30
+
+// User ids become upload directory names, so only allow safe characters (and never . or ..)
+const USER_ID_PATTERN = /^(?!\.{1,2}$)[A-Za-z0-9_.@-]{1,128}$/
+
+// What an API key may do; browser sessions (JWTs) may do everything
+export const API_KEY_SCOPES = ['read-files', 'write-files', 'render']
+
+// API keys look like `mk_<43 base64url chars>`; the prefix tells them apart from JWTs
+const API_KEY_PREFIX = 'mk_'
+
+// Characters of a key kept (unhashed) to identify it in listings
+const API_KEY_DISPLAY_LENGTH = 8
+
+export function isAuthConfigured() {
+  return JWT_SECRET.length > 0
+}
+
+const sign = (data, secret) => crypto.createHmac('sha256', secret).update(data).digest()
+
+const encodeSegment = (value) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+function decodeSegment(segment) {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'))
+    return value && typeof value === 'object' ? value : null
+  } catch {
+    return null
+  }
+}
+
+// Verify a token's signature and claims; returns its user id (`sub`), or null if it isn't valid
+export function verifyToken(token, secret = JWT_SECRET, now = Math.floor(Date.now() / 1000)) {
+  if (!secret || typeof token !== 'string') return null
+  const parts = token.split('.')
+  if (parts.length !== 3) return null
+  const [headerSegment, payloadSegment, signatureSegment] = parts
+
+  const header = decodeSegment(headerSegment)
+  if (!header || header.alg !== 'HS256') return null
+
+  const expected = sign(`${headerSegment}.${payloadSegment}`, secret)
+  const signature = Buffer.from(signatureSegment, 'base64url')
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) return null
+
+  const payload = decodeSegment(payloadSegment)
+  if (!payload) return null
+  if (typeof payload.exp !== 'number' || payload.exp + CLOCK_TOLERANCE < now) return null
+  if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_TOLERANCE > now) return null
+  if (JWT_ISSUER && payload.iss !== JWT_ISSUER) return null
+  if (JWT_AUDIENCE && !(Array.isArray(payload.aud) ? payload.aud.includes(JWT_AUDIENCE) : payload.aud === JWT_AUDIENCE)) return null
+
+  return typeof payload.sub === 'string' && USER_ID_PATTERN.test(payload.sub) ? payload.sub : null
+}
+
+// Issue a token for a user (for local development and tests; production tokens come from the host platform)
+export function signToken(userId, { expiresIn = 60 * 60, secret = JWT_SECRET } = {}) {
+  if (!secret) throw new Error('JWT_SECRET is not set')
+  const now = Math.floor(Date.now() / 1000)
+  const payload = { sub: userId, iat: now, exp: now + expiresIn }
+  if (JWT_ISSUER) payload.iss = JWT_ISSUER
+  if (JWT_AUDIENCE) payload.aud = JWT_AUDIENCE
+
+  const data = `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(payload)}`
+  return `${data}.${sign(data, secret).toString('base64url')}`
+}
+
+export const hashApiKey = (key) => crypto.createHash('sha256').update(key).digest('hex')
+
+// Generate a new API key; only its hash and display prefix are stored
+export function generateApiKey() {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`
+  return { key, hash: hashApiKey(key), prefix: key.slice(0, API_KEY_PREFIX.length + API_KEY_DISPLAY_LENGTH) }
+}
+
+// Express middleware: sets req.userId from `Authorization: Bearer <token or API key>`, or responds 401.
+// API key requests also get req.apiKeyScopes (null for browser sessions).
+export function requireAuth(req, res, next) {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') || '')
+  if (!match) {
+    return res.status(401).json({ error: 'Authentication required' })
+  }
+
+  if (match[1].startsWith(API_KEY_PREFIX)) {
+    const apiKey = apiKeyDb.getByHash(hashApiKey(match[1]))
+    if (!apiKey) {
+      return res.status(401).json({ error: 'Invalid API key' })
+    }
+    apiKeyDb.touch(apiKey.id)
+    req.userId = apiKey.user_id
+    req.apiKeyScopes = JSON.parse(apiKey.scopes)
+    return next()
+  }
+
+  if (!isAuthConfigured()) {
+    return res.status(500).json({ error: 'Authentication is not configured' })
+  }
+
+  const userId = verifyToken(match[1])
+  if (!userId) {
+    return res.status(401).json({ error: 'Invalid or expired token' })
+  }
+
+  req.userId = userId
+  req.apiKeyScopes = null
+  next()
+}
+
+// Route middleware: API keys need `scope`; browser sessions always pass
+export const requireScope = (scope) => (req, res, next) => {
+  if (req.apiKeyScopes && !req.apiKeyScopes.includes(scope)) {
+    return res.status(403).json({ error: `API key is missing the ${scope} scope` })
+  }
+  next()
+}
+
+// Route middleware: browser sessions only (API keys cannot manage API keys)
+export function requireSession(req, res, next) {
+  if (req.apiKeyScopes) {
+    return res.status(403).json({ error: 'This endpoint requires a signed-in session' })
+  }
+  next()
+}
@@ -26,30 +26,170 @@ function initializeDatabase() {
     )
   `)
 
+  // Projects table (scene stored as JSON)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS projects (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      data TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+
+  // API keys table (only the SHA-256 of each key is stored; scopes as JSON)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS api_keys (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      key_hash TEXT NOT NULL UNIQUE,
+      key_prefix TEXT NOT NULL,
+      scopes TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_used_at TIMESTAMP
+    )
+  `)
+
   // Create indexes for better query performance
   db.exec(`
     CREATE INDEX IF NOT EXISTS idx_images_user_id ON images(user_id);
     CREATE INDEX IF NOT EXISTS idx_images_created_at ON images(created_at);
+    CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id);
+    CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
   `)
 
+  // Migrations: add columns introduced after the initial schema
+  const imageColumns = db.prepare('PRAGMA table_info(images)').all().map(column => column.name)
+  if (!imageColumns.includes('print_area')) {
+    db.exec('ALTER TABLE images ADD COLUMN print_area TEXT')
+  }
+  if (!imageColumns.includes('content_hash')) {
+    db.exec('ALTER TABLE images ADD COLUMN content_hash TEXT')
+  }
+  // Image metadata probed at upload (existing rows are filled in by the server on startup)
+  const metadataColumns = {
+    width: 'INTEGER',
+    height: 'INTEGER',
+    byte_size: 'INTEGER',
+    mime_type: 'TEXT',
+    colour_space: 'TEXT',
+    has_alpha: 'INTEGER'
+  }
+  for (const [name, type] of Object.entries(metadataColumns)) {
+    if (!imageColumns.includes(name)) {
+      db.exec(`ALTER TABLE images ADD COLUMN ${name} ${type}`)
+    }
+  }
+  if (!imageColumns.includes('thumbnail_url')) {
+    db.exec('ALTER TABLE images ADD COLUMN thumbnail_url TEXT')
+  }
+  if (!imageColumns.includes('preview_url')) {
+    db.exec('ALTER TABLE images ADD COLUMN preview_url TEXT')
+  }
+  // Set while previews are generated and kept if that fails, so a bad file is never decoded again
+  if (!imageColumns.includes('previews_failed')) {
+    db.exec('ALTER TABLE images ADD COLUMN previews_failed INTEGER NOT NULL DEFAULT 0')
+  }
+  db.exec('CREATE INDEX IF NOT EXISTS idx_images_user_hash ON images(user_id, content_hash)')
+
   console.log('Database initialized successfully')
 }
 
 // Initialize database on module load
 initializeDatabase()
 
+// Metadata column values in table order (null for anything unknown)
+function toMetadataValues(metadata) {
+  return [
+    metadata?.width ?? null,
+    metadata?.height ?? null,
+    metadata?.byteSize ?? null,
+    metadata?.mimeType ?? null,
+    metadata?.colourSpace ?? null,
+    typeof metadata?.hasAlpha === 'boolean' ? Number(metadata.hasAlpha) : null
+  ]
+}
+
 // Image operations
 export const imageDb = {
-  // Add image
-  add(userId, fileName, fileUrl) {
+  // Add image (printArea is stored as JSON, contentHash is the file's SHA-256 in hex,
+  // metadata is { width, height, byteSize, mimeType, colourSpace, hasAlpha })
+  add(userId, fileName, fileUrl, printArea = null, contentHash = null, metadata = null) {
     const stmt = db.prepare(`
-      INSERT INTO images (user_id, file_name, file_url)
-      VALUES (?, ?, ?)
+      INSERT INTO images (
+        user_id, file_name, file_url, print_area, content_hash,
+        width, height, byte_size, mime_type, colour_space, has_alpha
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `)
-    const result = stmt.run(userId, fileName, fileUrl)
+    const result = stmt.run(
+      userId, fileName, fileUrl, printArea ? JSON.stringify(printArea) : null, contentHash,
+      ...toMetadataValues(metadata)
+    )
     return result.lastInsertRowid
   },
 
+  // Set the probed metadata of an image
+  updateMetadata(id, metadata) {
+    const stmt = db.prepare(`
+      UPDATE images
+      SET width = ?, height = ?, byte_size = ?, mime_type = ?, colour_space = ?, has_alpha = ?
+      WHERE id = ?
+    `)
+    stmt.run(...toMetadataValues(metadata), id)
+  },
+
+  // Set the thumbnail and medium preview URLs of an image
+  updatePreviewUrls(id, thumbnailUrl, previewUrl) {
+    const stmt = db.prepare('UPDATE images SET thumbnail_url = ?, preview_url = ?, previews_failed = 0 WHERE id = ?')
+    stmt.run(thumbnailUrl, previewUrl, id)
+  },
+
+  // Mark an image's previews as failed (or not)
+  setPreviewsFailed(id, failed) {
+    const stmt = db.prepare('UPDATE images SET previews_failed = ? WHERE id = ?')
+    stmt.run(failed ? 1 : 0, id)
+  },
+
+  // Images without generated previews that haven't failed before
+  getWithoutPreviews() {
+    const stmt = db.prepare('SELECT * FROM images WHERE thumbnail_url IS NULL AND previews_failed = 0')
+    return stmt.all()
+  },
+
+  // Images stored before metadata was recorded
+  getWithoutMetadata() {
+    const stmt = db.prepare('SELECT * FROM images WHERE byte_size IS NULL')
+    return stmt.all()
+  },
+
+  // Get a user's image with the given content hash
+  getByContentHash(userId, contentHash) {
+    const stmt = db.prepare('SELECT * FROM images WHERE user_id = ? AND content_hash = ? ORDER BY id ASC LIMIT 1')
+    return stmt.get(userId, contentHash)
+  },
+
+  // Images stored before content hashes were recorded
+  getWithoutContentHash() {
+    const stmt = db.prepare('SELECT * FROM images WHERE content_hash IS NULL')
+    return stmt.all()
+  },
+
+  // Set the content hash of an image
+  updateContentHash(id, contentHash) {
+    const stmt = db.prepare('UPDATE images SET content_hash = ? WHERE id = ?')
+    stmt.run(contentHash, id)
+  },
+
+  // Set or clear the print area of an image
+  updatePrintArea(userId, fileName, printArea) {
+    const stmt = db.prepare('UPDATE images SET print_area = ? WHERE user_id = ? AND file_name = ?')
+    const result = stmt.run(printArea ? JSON.stringify(printArea) : null, userId, fileName)
+    return result.changes
+  },
+
   // Get all images for a user
   getByUserId(userId) {
     const stmt = db.prepare('SELECT * FROM images WHERE user_id = ? ORDER BY created_at ASC')
@@ -93,6 +233,100 @@ export const imageDb = {
   }
 }
 
+// Project operations
+export const projectDb = {
+  // Create project (data is stored as JSON)
+  create(userId, name, data) {
+    const stmt = db.prepare(`
+      INSERT INTO projects (user_id, name, data)
+      VALUES (?, ?, ?)
+    `)
+    const result = stmt.run(userId, name, JSON.stringify(data))
+    return result.lastInsertRowid
+  },
+
+  // Update name and/or data of a project
+  update(userId, id, name, data) {
+    const stmt = db.prepare(`
+      UPDATE projects
+      SET name = COALESCE(?, name), data = COALESCE(?, data), updated_at = CURRENT_TIMESTAMP
+      WHERE user_id = ? AND id = ?
+    `)
+    const result = stmt.run(name ?? null, data === undefined ? null : JSON.stringify(data), userId, id)
+    return result.changes
+  },
+
+  // List projects for a user (without scene data)
+  getByUserId(userId) {
+    const stmt = db.prepare(`
+      SELECT id, name, created_at, updated_at FROM projects
+      WHERE user_id = ? ORDER BY updated_at DESC, id DESC
+    `)
+    return stmt.all(userId)
+  },
+
+  // Get project with scene data
+  getById(userId, id) {
+    const stmt = db.prepare('SELECT * FROM projects WHERE user_id = ? AND id = ?')
+    return stmt.get(userId, id)
+  },
+
+  // Delete project
+  delete(userId, id) {
+    const stmt = db.prepare('DELETE FROM projects WHERE user_id = ? AND id = ?')
+    return stmt.run(userId, id).changes
+  }
+}
+
+// API key operations
+export const apiKeyDb = {
+  // Create key (scopes are stored as JSON)
+  create(userId, name, keyHash, keyPrefix, scopes) {
+    const stmt = db.prepare(`
+      INSERT INTO api_keys (user_id, name, key_hash, key_prefix, scopes)
+      VALUES (?, ?, ?, ?, ?)
+    `)
+    const result = stmt.run(userId, name, keyHash, keyPrefix, JSON.stringify(scopes))
+    return result.lastInsertRowid
+  },
+
+  // List keys for a user (without hashes)
+  getByUserId(userId) {
+    const stmt = db.prepare(`
+      SELECT id, name, key_prefix, scopes, created_at, last_used_at FROM api_keys
+      WHERE user_id = ? ORDER BY created_at DESC, id DESC
+    `)
+    return stmt.all(userId)
+  },
+
+  // Get key by hash (for authenticating requests)
+  getByHash(keyHash) {
+    const stmt = db.prepare('SELECT * FROM api_keys WHERE key_hash = ?')
+    return stmt.get(keyHash)
+  },
+
+  // Get key by ID
+  getById(userId, id) {
+    const stmt = db.prepare(`
+      SELECT id, name, key_prefix, scopes, created_at, last_used_at FROM api_keys
+      WHERE user_id = ? AND id = ?
+    `)
+    return stmt.get(userId, id)
+  },
+
+  // Record that a key was just used
+  touch(id) {
+    const stmt = db.prepare('UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?')
+    stmt.run(id)
+  },
+
+  // Revoke (delete) key
+  delete(userId, id) {
+    const stmt = db.prepare('DELETE FROM api_keys WHERE user_id = ? AND id = ?')
+    return stmt.run(userId, id).changes
+  }
+}
+
 // Transaction helper
 export function transaction(callback) {
   const txn = db.transaction(callback)
@@ -0,0 +1,119 @@
+// Image probing: type, dimensions, colour space and alpha read from file headers (no decoding)
+
+// Colour spaces: 'rgb', 'grayscale', 'indexed' (palette) or 'cmyk'
+
+function probePng(buffer) {
+  if (buffer.length < 33 || buffer.toString('ascii', 12, 16) !== 'IHDR') return null
+  const colourType = buffer[25]
+
+  // Palette and truecolour images can still carry transparency in a tRNS chunk
+  let hasTransparencyChunk = false
+  for (let offset = 8; offset + 8 <= buffer.length;) {
+    const length = buffer.readUInt32BE(offset)
+    const type = buffer.toString('ascii', offset + 4, offset + 8)
+    if (type === 'tRNS') hasTransparencyChunk = true
+    if (type === 'IDAT' || type === 'IEND') break
+    offset += length + 12
+  }
+
+  return {
+    mimeType: 'image/png',
+    width: buffer.readUInt32BE(16),
+    height: buffer.readUInt32BE(20),
+    colourSpace: colourType === 0 || colourType === 4 ? 'grayscale' : colourType === 3 ? 'indexed' : 'rgb',
+    hasAlpha: colourType === 4 || colourType === 6 || hasTransparencyChunk
+  }
+}
+
+function probeJpeg(buffer) {
+  // Walk the segments up to the frame header (SOF0-SOF15, except DHT/JPG/DAC markers)
+  for (let offset = 2; offset + 9 < buffer.length;) {
+    if (buffer[offset] !== 0xff) return null
+    const marker = buffer[offset + 1]
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    const length = buffer.readUInt16BE(offset + 2)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const components = buffer[offset + 9]
+      return {
+        mimeType: 'image/jpeg',
+        width: buffer.readUInt16BE(offset + 7),
+        height: buffer.readUInt16BE(offset + 5),
+        colourSpace: components === 1 ? 'grayscale' : components === 4 ? 'cmyk' : 'rgb',
+        hasAlpha: false
+      }
+    }
+    offset += length + 2
+  }
+  return null
+}
+
+function probeGif(buffer) {
+  if (buffer.length < 10) return null
+  // A graphic control extension with the transparency flag set
+  let hasAlpha = false
+  for (let offset = buffer.indexOf(Buffer.from([0x21, 0xf9, 0x04])); offset !== -1 && !hasAlpha;
+    offset = buffer.indexOf(Buffer.from([0x21, 0xf9, 0x04]), offset + 1)) {
+    hasAlpha = (buffer[offset + 3] & 0x01) === 1
+  }
+  return {
+    mimeType: 'image/gif',
+    width: buffer.readUInt16LE(6),
+    height: buffer.readUInt16LE(8),
+    colourSpace: 'indexed',
+    hasAlpha
+  }
+}
+
+function probeWebp(buffer) {
+  if (buffer.length < 30) return null
+  const chunk = buffer.toString('ascii', 12, 16)
+
+  if (chunk === 'VP8X') {
+    return {
+      mimeType: 'image/webp',
+      width: 1 + buffer.readUIntLE(24, 3),
+      height: 1 + buffer.readUIntLE(27, 3),
+      colourSpace: 'rgb',
+      hasAlpha: (buffer[20] & 0x10) !== 0
+    }
+  }
+  if (chunk === 'VP8L') {
+    const bits = buffer.readUInt32LE(21)
+    return {
+      mimeType: 'image/webp',
+      width: 1 + (bits & 0x3fff),
+      height: 1 + ((bits >> 14) & 0x3fff),
+      colourSpace: 'rgb',
+      hasAlpha: ((bits >> 28) & 1) === 1
+    }
+  }
+  if (chunk === 'VP8 ') {
+    return {
+      mimeType: 'image/webp',
+      width: buffer.readUInt16LE(26) & 0x3fff,
+      height: buffer.readUInt16LE(28) & 0x3fff,
+      colourSpace: 'rgb',
+      hasAlpha: false
+    }
+  }
+  return null
+}
+
+/**
+ * Probe an image file's contents: { mimeType, width, height, colourSpace, hasAlpha },
+ * or null for formats that aren't recognised (or truncated headers)
+ */
+export function probeImage(buffer) {
+  try {
+    if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47 && buffer.readUInt32BE(4) === 0x0d0a1a0a) return probePng(buffer)
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return probeJpeg(buffer)
+    if (buffer.toString('ascii', 0, 4) === 'GIF8') return probeGif(buffer)
+    if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') return probeWebp(buffer)
+  } catch {
+    // Truncated or malformed header
+  }
+  return null
+}
@@ -0,0 +1,48 @@
+// Preview images: downscaled WebP copies of uploads, so file grids don't download originals
+import fs from 'fs'
+import path from 'path'
+import { createCanvas, loadImage } from '@napi-rs/canvas'
+
+// Longest side (px) of each generated size; smaller images are kept at their own size
+export const PREVIEW_SIZES = {
+  thumbnail: 320,
+  medium: 1024
+}
+
+const PREVIEW_QUALITY = 80
+
+// Previews live in uploads/<userId>/previews/
+export const PREVIEWS_DIR_NAME = 'previews'
+
+export function getPreviewFileName(fileName, size) {
+  return `${path.basename(fileName, path.extname(fileName))}_${size}.webp`
+}
+
+// Write every preview size of an uploaded file; returns the preview file names by size
+export async function generatePreviews(sourcePath, previewsDir, fileName) {
+  const image = await loadImage(sourcePath)
+  fs.mkdirSync(previewsDir, { recursive: true })
+
+  const fileNames = {}
+  for (const [size, maxSide] of Object.entries(PREVIEW_SIZES)) {
+    const scale = Math.min(1, maxSide / Math.max(image.width, image.height))
+    const canvas = createCanvas(Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)))
+    const ctx = canvas.getContext('2d')
+    ctx.imageSmoothingQuality = 'high'
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height)
+
+    fileNames[size] = getPreviewFileName(fileName, size)
+    fs.writeFileSync(path.join(previewsDir, fileNames[size]), await canvas.encode('webp', PREVIEW_QUALITY))
+  }
+  return fileNames
+}
+
+// Remove every preview of a file (missing ones are ignored)
+export function deletePreviews(previewsDir, fileName) {
+  for (const size of Object.keys(PREVIEW_SIZES)) {
+    const previewPath = path.join(previewsDir, getPreviewFileName(fileName, size))
+    if (fs.existsSync(previewPath)) {
+      fs.unlinkSync(previewPath)
+    }
+  }
+}
@@ -0,0 +1,83 @@
+// Headless renderer: composites designs onto mockups with the editor's own compositor (src/utils),
+// drawing on @napi-rs/canvas. The server runs with the tsx loader so it can import the TypeScript modules.
+import { createCanvas } from '@napi-rs/canvas'
+import { setCanvasFactory } from './src/utils/canvas.ts'
+import { BLEND_MODES, composeMockup } from './src/utils/compositor.ts'
+import { createDisplacementMap } from './src/utils/displacement.ts'
+import { normalizeHexColour as normalizeColour, recolourMockup } from './src/utils/colourway.ts'
+import { MAX_MESH_SIZE } from './src/utils/meshWarp.ts'
+
+setCanvasFactory(createCanvas)
+
+export const RENDER_FORMATS = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+}
+
+const DEFAULT_TRANSFORM = { x: 0, y: 0, scale: 1, scaleX: 1, scaleY: 1, rotation: 0, opacity: 100 }
+
+const isNumber = (n) => typeof n === 'number' && Number.isFinite(n)
+
+// Validate a layer warp ({ mode, cols, rows, points }), null if missing or malformed
+function parseWarp(value) {
+  if (!value || typeof value !== 'object') return null
+  const { mode, cols, rows, points } = value
+  if (mode !== 'perspective' && mode !== 'mesh') return null
+  if (!Number.isInteger(cols) || !Number.isInteger(rows)) return null
+  if (cols < 1 || rows < 1 || cols > MAX_MESH_SIZE || rows > MAX_MESH_SIZE) return null
+  if (mode === 'perspective' && (cols !== 1 || rows !== 1)) return null
+  if (!Array.isArray(points) || points.length !== (cols + 1) * (rows + 1)) return null
+  if (!points.every(point => point && isNumber(point.x) && isNumber(point.y))) return null
+  return { mode, cols, rows, points: points.map(point => ({ x: point.x, y: point.y })) }
+}
+
+// Validate a transform from a request, filling in editor defaults
+export function parseTransform(value) {
+  if (!value || typeof value !== 'object') return null
+  const transform = { ...DEFAULT_TRANSFORM }
+  for (const key of Object.keys(DEFAULT_TRANSFORM)) {
+    if (value[key] === undefined) continue
+    if (!isNumber(value[key])) return null
+    transform[key] = value[key]
+  }
+  transform.opacity = Math.max(0, Math.min(100, transform.opacity))
+  transform.warp = parseWarp(value.warp)
+  return transform
+}
+
+export function isBlendMode(value) {
+  return BLEND_MODES.includes(value)
+}
+
+export function normalizeHexColour(value) {
+  return typeof value === 'string' ? normalizeColour(value) : null
+}
+
+/**
+ * Render a mockup with its layers (back to front) and encode it.
+ * mockup: { image, printArea, colour, garmentMask, displacementMap } (displacementMap is an optional
+ * grayscale image, the mockup itself is used otherwise); layers: [{ image, transform, blendMode }]
+ */
+export async function renderMockup({ mockup, layers, displacementStrength = 0, format = 'png', quality = 92 }) {
+  const ctx = composeMockup({
+    background: mockup.colour ? recolourMockup(mockup.image, mockup.colour, mockup.garmentMask) : mockup.image,
+    layers: layers.map(({ image, transform, blendMode }) => ({ image, placement: transform, opacity: transform.opacity, blendMode })),
+    printArea: mockup.printArea,
+    displacementMap: displacementStrength > 0 ? createDisplacementMap(mockup.displacementMap ?? mockup.image) : null,
+    displacementStrength
+  })
+  let canvas = ctx.canvas
+
+  // JPEG has no alpha: flatten onto white (like the editor's export) instead of the encoder's black
+  if (format === 'jpeg') {
+    const flattened = createCanvas(canvas.width, canvas.height)
+    const flattenedCtx = flattened.getContext('2d')
+    flattenedCtx.fillStyle = '#ffffff'
+    flattenedCtx.fillRect(0, 0, canvas.width, canvas.height)
+    flattenedCtx.drawImage(canvas, 0, 0)
+    canvas = flattened
+  }
+
+  return format === 'png' ? canvas.encode('png') : canvas.encode(format, quality)
+}
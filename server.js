@@ -3,9 +3,16 @@ import express from 'express'
 import multer from 'multer'
 import cors from 'cors'
 import fs from 'fs'
+import crypto from 'crypto'
 import path from 'path'
 import { fileURLToPath } from 'url'
-import { imageDb } from './database.js'
+import { loadImage } from '@napi-rs/canvas'
+import JSZip from 'jszip'
+import { imageDb, projectDb, apiKeyDb } from './database.js'
+import { RENDER_FORMATS, renderMockup, parseTransform, isBlendMode, normalizeHexColour } from './render.js'
+import { probeImage } from './imageInfo.js'
+import { PREVIEWS_DIR_NAME, generatePreviews, deletePreviews } from './previews.js'
+import { API_KEY_SCOPES, isAuthConfigured, requireAuth, requireScope, requireSession, generateApiKey } from './auth.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -18,7 +25,17 @@ app.use(cors({
   origin: true,
   credentials: true
 }))
-app.use(express.json())
+// Project scenes embed design images as data URLs, so allow large JSON bodies
+app.use(express.json({ limit: '50mb' }))
+
+// Files, projects, renders and keys always act for the user in the bearer token or API key,
+// never a client-supplied id
+app.use(['/api/files', '/api/projects', '/api/render', '/api/keys', '/uploads'], requireAuth)
+
+// API key scopes needed per route group
+const canReadFiles = requireScope('read-files')
+const canWriteFiles = requireScope('write-files')
+const canRender = requireScope('render')
 
 // File storage configuration
 const UPLOADS_DIR = path.join(__dirname, 'uploads')
@@ -36,20 +53,100 @@ const tempUpload = multer({
   }
 })
 
+// Extensions accepted for stored files, e.g. ".png"
+const FILE_EXT_PATTERN = /^\.[a-z0-9]{1,5}$/i
+
 // Ensure temp upload directory exists
 const tempUploadDir = path.join(UPLOADS_DIR, 'temp')
 if (!fs.existsSync(tempUploadDir)) {
   fs.mkdirSync(tempUploadDir, { recursive: true })
 }
 
-// Get all files for a user
-app.get('/api/files/:userId', (req, res) => {
+// SHA-256 (hex) and probed metadata of a stored file; `mimeType` is used for formats the probe doesn't know
+function readFileInfo(filePath, mimeType = null) {
+  const buffer = fs.readFileSync(filePath)
+  return {
+    contentHash: crypto.createHash('sha256').update(buffer).digest('hex'),
+    metadata: { mimeType, ...probeImage(buffer), byteSize: buffer.length }
+  }
+}
+
+// Only files whose header probe found a supported format and a size are ever decoded:
+// @napi-rs/canvas can crash the whole process on malformed image data. Takes probed metadata or an images row.
+function isProbedImage({ width, height }) {
+  return width > 0 && height > 0
+}
+
+// Fill in hashes and metadata of files uploaded before they were stored, so they are deduplicated
+// and listed with metadata too
+const filesToBackfill = new Map([...imageDb.getWithoutContentHash(), ...imageDb.getWithoutMetadata()].map(file => [file.id, file]))
+for (const file of filesToBackfill.values()) {
+  const filePath = path.join(UPLOADS_DIR, file.user_id, file.file_name)
+  try {
+    if (fs.existsSync(filePath)) {
+      const { contentHash, metadata } = readFileInfo(filePath)
+      imageDb.updateContentHash(file.id, contentHash)
+      imageDb.updateMetadata(file.id, metadata)
+    }
+  } catch (error) {
+    console.error(`Error reading ${file.file_url}:`, error)
+  }
+}
+
+// Generate the thumbnail and medium preview of a stored file and record their URLs;
+// returns the URLs, or nulls if the image couldn't be decoded (the listing then falls back to the original)
+async function storePreviews(id, userId, fileName) {
+  // Marked failed until the previews are stored, so a file that crashes the decoder isn't retried
+  imageDb.setPreviewsFailed(id, true)
   try {
-    const { userId } = req.params
+    const previewsDir = path.join(UPLOADS_DIR, userId, PREVIEWS_DIR_NAME)
+    const { thumbnail, medium } = await generatePreviews(path.join(UPLOADS_DIR, userId, fileName), previewsDir, fileName)
+    const thumbnailUrl = `/uploads/${userId}/${PREVIEWS_DIR_NAME}/${thumbnail}`
+    const previewUrl = `/uploads/${userId}/${PREVIEWS_DIR_NAME}/${medium}`
+    imageDb.updatePreviewUrls(id, thumbnailUrl, previewUrl)
+    return { thumbnailUrl, previewUrl }
+  } catch (error) {
+    console.error(`Error generating previews of ${fileName}:`, error)
+    return { thumbnailUrl: null, previewUrl: null }
+  }
+}
+
+// Validate a print area from a request (rectangle or polygon in mockup pixels)
+function parsePrintArea(value) {
+  let area = value
+  if (typeof area === 'string') {
+    try {
+      area = JSON.parse(area)
+    } catch {
+      return null
+    }
+  }
+  if (!area || typeof area !== 'object') return null
 
-    if (!userId) {
-      return res.status(400).json({ error: 'User ID is required' })
+  const isNumber = (n) => typeof n === 'number' && Number.isFinite(n)
+
+  if (area.type === 'rect') {
+    const { x, y, width, height } = area
+    if ([x, y, width, height].every(isNumber) && width > 0 && height > 0) {
+      return { type: 'rect', x, y, width, height }
     }
+    return null
+  }
+
+  if (area.type === 'polygon' && Array.isArray(area.points)) {
+    const points = area.points
+      .filter(point => point && isNumber(point.x) && isNumber(point.y))
+      .map(point => ({ x: point.x, y: point.y }))
+    return points.length >= 3 ? { type: 'polygon', points } : null
+  }
+
+  return null
+}
+
+// Get all files of the authenticated user
+app.get('/api/files', canReadFiles, (req, res) => {
+  try {
+    const { userId } = req
 
     // Get files from database
     const dbFiles = imageDb.getByUserId(userId)
@@ -60,7 +157,16 @@ app.get('/api/files/:userId', (req, res) => {
       index: index,
       url: file.file_url,
       id: file.id,
-      created_at: file.created_at
+      created_at: file.created_at,
+      printArea: file.print_area ? parsePrintArea(file.print_area) : null,
+      thumbnailUrl: file.thumbnail_url,
+      previewUrl: file.preview_url,
+      width: file.width,
+      height: file.height,
+      size: file.byte_size,
+      mimeType: file.mime_type,
+      colourSpace: file.colour_space,
+      hasAlpha: file.has_alpha === null ? null : file.has_alpha === 1
     }))
 
     res.json(files)
@@ -71,14 +177,10 @@ app.get('/api/files/:userId', (req, res) => {
 })
 
 
-// Clear/reset all files for a user (for Delete All)
-app.post('/api/files/clear', (req, res) => {
+// Clear/reset all files of the authenticated user (for Delete All)
+app.post('/api/files/clear', canWriteFiles, (req, res) => {
   try {
-    const { userId } = req.body
-
-    if (!userId) {
-      return res.status(400).json({ error: 'User ID is required' })
-    }
+    const { userId } = req
 
     // Delete all files from database first
     try {
@@ -99,6 +201,7 @@ app.post('/api/files/clear', (req, res) => {
           fs.unlinkSync(filePath)
         }
       })
+      fs.rmSync(path.join(userDir, PREVIEWS_DIR_NAME), { recursive: true, force: true })
       console.log(`Cleared all files from filesystem for user ${userId}`)
     }
 
@@ -111,18 +214,42 @@ app.post('/api/files/clear', (req, res) => {
 
 
 // Upload file to user directory
-app.post('/api/files/upload', tempUpload.single('file'), (req, res) => {
+app.post('/api/files/upload', canWriteFiles, tempUpload.single('file'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file uploaded' })
     }
 
-    const { userId, ext } = req.body
+    const { userId } = req
+    const { ext } = req.body
+    const printArea = parsePrintArea(req.body.printArea)
+
+    const { contentHash, metadata } = readFileInfo(req.file.path, req.file.mimetype)
+    if (!isProbedImage(metadata)) {
+      fs.unlinkSync(req.file.path)
+      return res.status(400).json({ error: 'Not a supported image (PNG, JPEG, GIF or WebP)' })
+    }
 
-    if (!userId) {
-      // Clean up uploaded file
+    // The same content uploaded again reuses the stored file
+    const existing = imageDb.getByContentHash(userId, contentHash)
+    if (existing) {
       fs.unlinkSync(req.file.path)
-      return res.status(400).json({ error: 'User ID is required' })
+      // A print area sent with the upload replaces the stored one
+      if (printArea) {
+        imageDb.updatePrintArea(userId, existing.file_name, printArea)
+      }
+      return res.json({
+        message: 'File already exists',
+        alreadyExists: true,
+        file: {
+          name: existing.file_name,
+          size: req.file.size,
+          url: existing.file_url,
+          thumbnailUrl: existing.thumbnail_url,
+          previewUrl: existing.preview_url,
+          printArea: printArea ?? (existing.print_area ? parsePrintArea(existing.print_area) : null)
+        }
+      })
     }
 
     // Create user directory
@@ -133,19 +260,26 @@ app.post('/api/files/upload', tempUpload.single('file'), (req, res) => {
 
     // Move file from temp to user directory with proper name
     const timestamp = Date.now()
-    // Use provided ext or fallback to file extension
-    const fileExt = ext || path.extname(req.file.originalname) || '.png'
-    const basename = path.basename(req.file.originalname, path.extname(req.file.originalname))
+    // Use provided ext or fallback to file extension (plain extensions only, never a path)
+    const originalExt = path.extname(req.file.originalname)
+    const fileExt = FILE_EXT_PATTERN.test(ext ?? '') ? ext : FILE_EXT_PATTERN.test(originalExt) ? originalExt : '.png'
+    const basename = path.basename(req.file.originalname, originalExt)
     const newFilename = `${basename}_${timestamp}${fileExt}`
     const finalPath = path.join(userDir, newFilename)
+    if (path.dirname(finalPath) !== userDir) {
+      fs.unlinkSync(req.file.path)
+      return res.status(400).json({ error: 'Invalid file name' })
+    }
 
     fs.renameSync(req.file.path, finalPath)
 
     // Store file information in database
     const fileUrl = `/uploads/${userId}/${newFilename}`
+    let previews = { thumbnailUrl: null, previewUrl: null }
     try {
-      imageDb.add(userId, newFilename, fileUrl)
+      const id = imageDb.add(userId, newFilename, fileUrl, printArea, contentHash, metadata)
       console.log(`Saved to database: ${fileUrl}`)
+      previews = await storePreviews(id, userId, newFilename)
     } catch (dbError) {
       console.error('Error saving to database:', dbError)
       // Continue even if database save fails - file is already saved to disk
@@ -153,10 +287,13 @@ app.post('/api/files/upload', tempUpload.single('file'), (req, res) => {
 
     res.json({
       message: 'File uploaded successfully',
+      alreadyExists: false,
       file: {
         name: newFilename,
         size: req.file.size,
-        url: fileUrl
+        url: fileUrl,
+        ...previews,
+        printArea
       }
     })
   } catch (error) {
@@ -169,13 +306,40 @@ app.post('/api/files/upload', tempUpload.single('file'), (req, res) => {
   }
 })
 
+// Set or clear the print area of a file
+app.put('/api/files/:filename/print-area', canWriteFiles, (req, res) => {
+  try {
+    const { userId } = req
+    const { filename } = req.params
+    const { printArea: rawPrintArea } = req.body
+
+    // null clears the print area; anything else must be a valid shape
+    const printArea = rawPrintArea === null ? null : parsePrintArea(rawPrintArea)
+    if (rawPrintArea !== null && !printArea) {
+      return res.status(400).json({ error: 'Invalid print area' })
+    }
+
+    const changes = imageDb.updatePrintArea(userId, filename, printArea)
+    if (changes === 0) {
+      return res.status(404).json({ error: 'File not found' })
+    }
+
+    res.json({ message: 'Print area saved successfully', filename, printArea })
+  } catch (error) {
+    console.error('Error saving print area:', error)
+    res.status(500).json({ error: 'Failed to save print area' })
+  }
+})
+
 // Delete file from user directory
-app.delete('/api/files/:userId/:filename', (req, res) => {
+app.delete('/api/files/:filename', canWriteFiles, (req, res) => {
   try {
-    const { userId, filename } = req.params
+    const { userId } = req
+    const { filename } = req.params
 
-    if (!userId) {
-      return res.status(400).json({ error: 'User ID is required' })
+    // Only this user's stored files: the name must not reach outside their directory
+    if (path.basename(filename) !== filename || !imageDb.getByUserAndFilename(userId, filename)) {
+      return res.status(404).json({ error: 'File not found' })
     }
 
     // Delete from database first
@@ -193,6 +357,7 @@ app.delete('/api/files/:userId/:filename', (req, res) => {
       fs.unlinkSync(filePath)
       console.log(`Deleted from filesystem: ${filename}`)
     }
+    deletePreviews(path.join(UPLOADS_DIR, userId, PREVIEWS_DIR_NAME), filename)
 
     res.json({ message: 'File deleted successfully', filename })
   } catch (error) {
@@ -201,6 +366,330 @@ app.delete('/api/files/:userId/:filename', (req, res) => {
   }
 })
 
+// Map a project row to the API format (scene data only when requested)
+function toProjectResponse(project, includeScene = false) {
+  const response = {
+    id: project.id,
+    name: project.name,
+    createdAt: project.created_at,
+    updatedAt: project.updated_at
+  }
+  if (includeScene) {
+    response.scene = JSON.parse(project.data)
+  }
+  return response
+}
+
+// List projects of the authenticated user
+app.get('/api/projects', canReadFiles, (req, res) => {
+  try {
+    const { userId } = req
+
+    res.json(projectDb.getByUserId(userId).map(project => toProjectResponse(project)))
+  } catch (error) {
+    console.error('Error listing projects:', error)
+    res.status(500).json({ error: 'Failed to list projects' })
+  }
+})
+
+// Get a project with its full scene
+app.get('/api/projects/:projectId', canReadFiles, (req, res) => {
+  try {
+    const { userId } = req
+    const { projectId } = req.params
+
+    const project = projectDb.getById(userId, Number(projectId))
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+
+    res.json(toProjectResponse(project, true))
+  } catch (error) {
+    console.error('Error reading project:', error)
+    res.status(500).json({ error: 'Failed to read project' })
+  }
+})
+
+// Create a project
+app.post('/api/projects', canWriteFiles, (req, res) => {
+  try {
+    const { userId } = req
+    const { name, scene } = req.body
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Project name is required' })
+    }
+    if (!scene || typeof scene !== 'object') {
+      return res.status(400).json({ error: 'Project scene is required' })
+    }
+
+    const id = projectDb.create(userId, name.trim(), scene)
+    res.status(201).json(toProjectResponse(projectDb.getById(userId, id)))
+  } catch (error) {
+    console.error('Error creating project:', error)
+    res.status(500).json({ error: 'Failed to create project' })
+  }
+})
+
+// Save (rename and/or replace the scene of) a project
+app.put('/api/projects/:projectId', canWriteFiles, (req, res) => {
+  try {
+    const { userId } = req
+    const { projectId } = req.params
+    const { name, scene } = req.body
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return res.status(400).json({ error: 'Project name cannot be empty' })
+    }
+    if (scene !== undefined && (!scene || typeof scene !== 'object')) {
+      return res.status(400).json({ error: 'Invalid project scene' })
+    }
+
+    const changes = projectDb.update(userId, Number(projectId), name?.trim(), scene)
+    if (changes === 0) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+
+    res.json(toProjectResponse(projectDb.getById(userId, Number(projectId))))
+  } catch (error) {
+    console.error('Error saving project:', error)
+    res.status(500).json({ error: 'Failed to save project' })
+  }
+})
+
+// Duplicate a project
+app.post('/api/projects/:projectId/duplicate', canWriteFiles, (req, res) => {
+  try {
+    const { userId } = req
+    const { projectId } = req.params
+
+    const project = projectDb.getById(userId, Number(projectId))
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+
+    const name = typeof req.body.name === 'string' && req.body.name.trim()
+      ? req.body.name.trim()
+      : `${project.name} (copy)`
+    const id = projectDb.create(userId, name, JSON.parse(project.data))
+
+    res.status(201).json(toProjectResponse(projectDb.getById(userId, id)))
+  } catch (error) {
+    console.error('Error duplicating project:', error)
+    res.status(500).json({ error: 'Failed to duplicate project' })
+  }
+})
+
+// Delete a project
+app.delete('/api/projects/:projectId', canWriteFiles, (req, res) => {
+  try {
+    const { userId } = req
+    const { projectId } = req.params
+
+    const changes = projectDb.delete(userId, Number(projectId))
+    if (changes === 0) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+
+    res.json({ message: 'Project deleted successfully', id: Number(projectId) })
+  } catch (error) {
+    console.error('Error deleting project:', error)
+    res.status(500).json({ error: 'Failed to delete project' })
+  }
+})
+
+// Render mockups with designs server-side (same compositing as the editor's export)
+// Body: {
+//   format?: 'png' | 'jpeg' | 'webp', quality?: 1-100, displacementStrength?: mockup px,
+//   mockups: [{ fileId, colour?, garmentMaskFileId?, displacementMapFileId? }],
+//   layers: [{ fileId, transform: { x, y, scale?, scaleX?, scaleY?, rotation?, opacity?, warp? }, blendMode?, visible? }]
+// }
+// Layers are drawn back to front. One mockup returns the image itself, several return a ZIP.
+app.post('/api/render', canRender, async (req, res) => {
+  try {
+    const { userId } = req
+    const { mockups, layers } = req.body
+    const format = req.body.format ?? 'png'
+    const quality = req.body.quality ?? 92
+    const displacementStrength = req.body.displacementStrength ?? 0
+
+    if (!Object.hasOwn(RENDER_FORMATS, format)) {
+      return res.status(400).json({ error: `Unsupported format: ${format}` })
+    }
+    if (typeof quality !== 'number' || quality < 1 || quality > 100) {
+      return res.status(400).json({ error: 'Quality must be a number from 1 to 100' })
+    }
+    if (typeof displacementStrength !== 'number' || displacementStrength < 0 || displacementStrength > 200) {
+      return res.status(400).json({ error: 'Displacement strength must be a number from 0 to 200' })
+    }
+    if (!Array.isArray(mockups) || mockups.length === 0) {
+      return res.status(400).json({ error: 'At least one mockup is required' })
+    }
+    if (!Array.isArray(layers)) {
+      return res.status(400).json({ error: 'Layers must be an array' })
+    }
+
+    // Images are loaded once per request, and only from this user's files
+    const images = new Map()
+    const getUserFile = (fileId) => {
+      const file = Number.isInteger(fileId) ? imageDb.getById(fileId) : null
+      return file && file.user_id === userId ? file : null
+    }
+    const loadUserImage = async (fileId) => {
+      if (!images.has(fileId)) {
+        const file = getUserFile(fileId)
+        images.set(fileId, await loadImage(path.join(UPLOADS_DIR, userId, file.file_name)))
+      }
+      return images.get(fileId)
+    }
+
+    // Validate the whole scene before rendering anything
+    const fileIds = []
+    for (const mockup of mockups) {
+      if (!mockup || typeof mockup !== 'object') {
+        return res.status(400).json({ error: 'Invalid mockup entry' })
+      }
+      if (mockup.colour !== undefined && !normalizeHexColour(mockup.colour)) {
+        return res.status(400).json({ error: `Invalid colour: ${mockup.colour}` })
+      }
+      fileIds.push(mockup.fileId)
+      if (mockup.garmentMaskFileId !== undefined) fileIds.push(mockup.garmentMaskFileId)
+      if (mockup.displacementMapFileId !== undefined) fileIds.push(mockup.displacementMapFileId)
+    }
+    const renderLayers = []
+    for (const layer of layers) {
+      const transform = parseTransform(layer?.transform)
+      if (!transform) {
+        return res.status(400).json({ error: 'Invalid layer transform' })
+      }
+      const blendMode = layer.blendMode ?? 'multiply'
+      if (!isBlendMode(blendMode)) {
+        return res.status(400).json({ error: `Unsupported blend mode: ${blendMode}` })
+      }
+      fileIds.push(layer.fileId)
+      if (layer.visible !== false) {
+        renderLayers.push({ fileId: layer.fileId, transform, blendMode })
+      }
+    }
+    const missingId = fileIds.find(fileId => !getUserFile(fileId))
+    if (missingId !== undefined) {
+      return res.status(404).json({ error: `File not found: ${missingId}` })
+    }
+    const unsupportedId = fileIds.find(fileId => !isProbedImage(getUserFile(fileId)))
+    if (unsupportedId !== undefined) {
+      return res.status(400).json({ error: `Not a supported image: ${unsupportedId}` })
+    }
+
+    for (const layer of renderLayers) {
+      layer.image = await loadUserImage(layer.fileId)
+    }
+
+    const outputs = []
+    for (const mockup of mockups) {
+      const file = getUserFile(mockup.fileId)
+      const colour = mockup.colour !== undefined ? normalizeHexColour(mockup.colour) : null
+      const buffer = await renderMockup({
+        mockup: {
+          image: await loadUserImage(mockup.fileId),
+          printArea: file.print_area ? parsePrintArea(file.print_area) : null,
+          colour,
+          garmentMask: mockup.garmentMaskFileId !== undefined ? await loadUserImage(mockup.garmentMaskFileId) : null,
+          displacementMap: mockup.displacementMapFileId !== undefined ? await loadUserImage(mockup.displacementMapFileId) : null
+        },
+        layers: renderLayers,
+        displacementStrength,
+        format,
+        quality
+      })
+      const baseName = path.basename(file.file_name, path.extname(file.file_name))
+      outputs.push({ name: `${baseName}${colour ? `_${colour.slice(1)}` : ''}`, buffer })
+    }
+
+    if (outputs.length === 1) {
+      res.set('Content-Type', RENDER_FORMATS[format])
+      res.set('Content-Disposition', `inline; filename="${outputs[0].name}.${format}"`)
+      return res.send(outputs[0].buffer)
+    }
+
+    const zip = new JSZip()
+    const usedNames = new Set()
+    outputs.forEach(({ name, buffer }) => {
+      let uniqueName = name
+      for (let i = 2; usedNames.has(uniqueName); i++) uniqueName = `${name}_${i}`
+      usedNames.add(uniqueName)
+      zip.file(`${uniqueName}.${format}`, buffer)
+    })
+    const content = await zip.generateAsync({ type: 'nodebuffer' })
+    res.set('Content-Type', 'application/zip')
+    res.set('Content-Disposition', 'attachment; filename="render.zip"')
+    res.send(content)
+  } catch (error) {
+    console.error('Error rendering mockup:', error)
+    res.status(500).json({ error: 'Failed to render mockup' })
+  }
+})
+
+// Map an API key row to the API format (never includes the hash)
+function toApiKeyResponse(apiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.key_prefix,
+    scopes: JSON.parse(apiKey.scopes),
+    createdAt: apiKey.created_at,
+    lastUsedAt: apiKey.last_used_at
+  }
+}
+
+// List API keys of the authenticated user
+app.get('/api/keys', requireSession, (req, res) => {
+  try {
+    res.json(apiKeyDb.getByUserId(req.userId).map(toApiKeyResponse))
+  } catch (error) {
+    console.error('Error listing API keys:', error)
+    res.status(500).json({ error: 'Failed to list API keys' })
+  }
+})
+
+// Create an API key; the key itself is only returned by this response
+app.post('/api/keys', requireSession, (req, res) => {
+  try {
+    const { userId } = req
+    const { name, scopes } = req.body
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'API key name is required' })
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(scope => API_KEY_SCOPES.includes(scope))) {
+      return res.status(400).json({ error: `Scopes must be one or more of: ${API_KEY_SCOPES.join(', ')}` })
+    }
+
+    const { key, hash, prefix } = generateApiKey()
+    const id = apiKeyDb.create(userId, name.trim(), hash, prefix, [...new Set(scopes)])
+    res.status(201).json({ ...toApiKeyResponse(apiKeyDb.getById(userId, id)), key })
+  } catch (error) {
+    console.error('Error creating API key:', error)
+    res.status(500).json({ error: 'Failed to create API key' })
+  }
+})
+
+// Revoke an API key
+app.delete('/api/keys/:keyId', requireSession, (req, res) => {
+  try {
+    const { keyId } = req.params
+
+    const changes = apiKeyDb.delete(req.userId, Number(keyId))
+    if (changes === 0) {
+      return res.status(404).json({ error: 'API key not found' })
+    }
+
+    res.json({ message: 'API key revoked successfully', id: Number(keyId) })
+  } catch (error) {
+    console.error('Error revoking API key:', error)
+    res.status(500).json({ error: 'Failed to revoke API key' })
+  }
+})
+
 // Health check endpoint
 app.get('/api/health', (_req, res) => {
   try {
@@ -218,10 +707,40 @@ app.get('/api/health', (_req, res) => {
   }
 })
 
-// Serve files from uploads directory
-app.use('/uploads', express.static(UPLOADS_DIR))
+// Serve uploaded files and their previews to their owner only
+function sendUserFile(req, res, dir) {
+  if (req.params.userId !== req.userId) {
+    return res.status(404).json({ error: 'File not found' })
+  }
+  res.sendFile(req.params.filename, { root: dir }, (error) => {
+    if (error && !res.headersSent) {
+      res.status(404).json({ error: 'File not found' })
+    }
+  })
+}
+
+app.get('/uploads/:userId/:filename', canReadFiles, (req, res) => {
+  sendUserFile(req, res, path.join(UPLOADS_DIR, req.userId))
+})
+
+app.get(`/uploads/:userId/${PREVIEWS_DIR_NAME}/:filename`, canReadFiles, (req, res) => {
+  sendUserFile(req, res, path.join(UPLOADS_DIR, req.userId, PREVIEWS_DIR_NAME))
+})
 
 app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`)
   console.log(`Files will be saved to: uploads/<userId>/`)
+  if (!isAuthConfigured()) {
+    console.error('JWT_SECRET is not set: browser sessions will be rejected (API keys still work)')
+  }
+  backfillPreviews()
 })
+
+// Generate previews of files uploaded before previews existed, one at a time in the background
+async function backfillPreviews() {
+  for (const file of imageDb.getWithoutPreviews()) {
+    if (isProbedImage(file) && fs.existsSync(path.join(UPLOADS_DIR, file.user_id, file.file_name))) {
+      await storePreviews(file.id, file.user_id, file.file_name)
+    }
+  }
+}
@@ -1,16 +1,19 @@
 import { useState, useEffect } from 'react'
 import MockupCanvas from './components/MockupCanvas'
 import { ToastProvider } from './components/Toast'
+import { initSessionToken, getTokenUserId } from './utils/auth'
 
 function App() {
   const [userId, setUserId] = useState<string | null>(null)
+  const [isSignedOut, setIsSignedOut] = useState(false)
 
   useEffect(() => {
-    // Get userId from URL parameters
-    const urlParams = new URLSearchParams(window.location.search)
-    const userIdParam = urlParams.get('user_id') || 'default'
+    // The host platform passes a signed token; the server derives the user from it
+    const token = initSessionToken()
+    const tokenUserId = token ? getTokenUserId(token) : null
 
-    setUserId(userIdParam)
+    setUserId(tokenUserId)
+    setIsSignedOut(!tokenUserId)
   }, [])
 
   return (
@@ -28,6 +31,10 @@ function App() {
         <main className="container mx-auto px-4 py-8">
           {userId ? (
             <MockupCanvas userId={userId} />
+          ) : isSignedOut ? (
+            <div className="text-center text-gray-400">
+              <p>You are not signed in. Open the mockup editor from your account to continue.</p>
+            </div>
           ) : (
             <div className="text-center text-gray-400">
               <p>Loading...</p>
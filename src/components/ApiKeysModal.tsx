@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { authFetch } from '../utils/auth'
+
+type ApiKeyScope = 'read-files' | 'write-files' | 'render'
+
+interface ApiKeySummary {
+  id: number
+  name: string
+  prefix: string // First characters of the key, to tell keys apart
+  scopes: ApiKeyScope[]
+  createdAt: string
+  lastUsedAt: string | null
+}
+
+interface ApiKeysModalProps {
+  apiBase: string
+  onClose: () => void
+}
+
+const SCOPES: { scope: ApiKeyScope; label: string }[] = [
+  { scope: 'read-files', label: 'Read files' },
+  { scope: 'write-files', label: 'Upload and delete files' },
+  { scope: 'render', label: 'Render mockups' },
+]
+
+// SQLite timestamps are UTC without a zone
+const formatTimestamp = (value: string) => new Date(value.replace(' ', 'T') + 'Z').toLocaleString()
+
+export default function ApiKeysModal({ apiBase, onClose }: ApiKeysModalProps) {
+  const [apiKeys, setApiKeys] = useState<ApiKeySummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<Set<ApiKeyScope>>(new Set(['read-files']))
+  const [createdKey, setCreatedKey] = useState<string | null>(null) // Shown once, right after creation
+
+  const loadApiKeys = async () => {
+    try {
+      const response = await authFetch(`${apiBase}/keys`)
+      if (!response.ok) {
+        throw new Error(`Failed to load API keys: ${response.status}`)
+      }
+      setApiKeys(await response.json())
+      setError(null)
+    } catch (err) {
+      console.error('Error loading API keys:', err)
+      setError('Failed to load API keys')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadApiKeys()
+  }, [apiBase])
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(prev => {
+      const next = new Set(prev)
+      if (next.has(scope)) {
+        next.delete(scope)
+      } else {
+        next.add(scope)
+      }
+      return next
+    })
+  }
+
+  const handleCreate = async () => {
+    setIsBusy(true)
+    try {
+      const response = await authFetch(`${apiBase}/keys`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), scopes: [...scopes] })
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to create API key: ${response.status}`)
+      }
+      const { key, ...apiKey } = await response.json() as ApiKeySummary & { key: string }
+      setApiKeys(prev => [apiKey, ...prev])
+      setCreatedKey(key)
+      setName('')
+      setError(null)
+    } catch (err) {
+      console.error('Error creating API key:', err)
+      setError('Failed to create API key')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleRevoke = async (apiKey: ApiKeySummary) => {
+    if (!confirm(`Revoke API key "${apiKey.name}"? Tools using it will stop working.`)) return
+
+    setIsBusy(true)
+    try {
+      const response = await authFetch(`${apiBase}/keys/${apiKey.id}`, {
+        method: 'DELETE'
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to revoke API key: ${response.status}`)
+      }
+      setApiKeys(prev => prev.filter(k => k.id !== apiKey.id))
+    } catch (err) {
+      console.error('Error revoking API key:', err)
+      setError(`Failed to revoke "${apiKey.name}"`)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!createdKey) return
+    try {
+      await navigator.clipboard.writeText(createdKey)
+    } catch (err) {
+      console.error('Error copying API key:', err)
+    }
+  }
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-700">
+          <div>
+            <h2 className="text-2xl font-bold text-white">API Keys</h2>
+            <p className="text-gray-400 text-sm mt-1">
+              Send a key as <code>Authorization: Bearer &lt;key&gt;</code> to use the API without the editor
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition text-2xl font-bold w-10 h-10 flex items-center justify-center rounded hover:bg-gray-700"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <p className="text-sm text-red-400">{error}</p>
+          )}
+
+          {/* New Key */}
+          <div className="bg-gray-700 rounded-lg p-4 space-y-3">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Key name, e.g. Catalogue sync"
+                className="flex-1 bg-gray-800 text-white text-sm rounded px-3 py-2 border border-gray-600"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={isBusy || !name.trim() || scopes.size === 0}
+                className="px-4 py-2 text-sm bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded transition"
+              >
+                Create Key
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {SCOPES.map(({ scope, label }) => (
+                <label key={scope} className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={scopes.has(scope)}
+                    onChange={() => toggleScope(scope)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            {createdKey && (
+              <div className="bg-gray-900 rounded p-3 space-y-2">
+                <p className="text-xs text-yellow-400">Copy this key now — it won't be shown again.</p>
+                <div className="flex gap-2">
+                  <code className="flex-1 text-sm text-green-300 break-all">{createdKey}</code>
+                  <button
+                    onClick={handleCopy}
+                    className="px-3 py-1 text-xs bg-gray-600 hover:bg-gray-500 text-white rounded transition"
+                  >
+                    Copy
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Existing Keys */}
+          {!isLoading && apiKeys.length === 0 ? (
+            <div className="text-center text-gray-400 py-8">
+              <p className="text-sm">No API keys yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {apiKeys.map(apiKey => (
+                <div key={apiKey.id} className="flex items-center gap-3 rounded-lg p-3 border-2 border-gray-700">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white font-medium truncate" title={apiKey.name}>
+                      {apiKey.name}
+                      <code className="ml-2 text-xs text-gray-400">{apiKey.prefix}…</code>
+                    </p>
+                    <p className="text-gray-400 text-xs">
+                      {apiKey.scopes.join(', ')} • Created {formatTimestamp(apiKey.createdAt)} •{' '}
+                      {apiKey.lastUsedAt ? `Last used ${formatTimestamp(apiKey.lastUsedAt)}` : 'Never used'}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(apiKey)}
+                    disabled={isBusy}
+                    className="px-3 py-2 text-sm bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded transition"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
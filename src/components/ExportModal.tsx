@@ -0,0 +1,284 @@
+import { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import {
+  ExportSettings,
+  ExportPreset,
+  ExportFormat,
+  EXPORT_FORMATS,
+  getFormatInfo,
+  getPresetOutputSize,
+  getPresetFolder,
+} from '../utils/exportOptions'
+import { FILENAME_TOKENS } from '../utils/filenameTemplate'
+
+// Number of file names listed in the preview
+const PREVIEW_COUNT = 6
+
+interface ExportModalProps {
+  settings: ExportSettings
+  mockupCount: number
+  sampleSize: { width: number; height: number } | null // First mockup, for the size preview
+  getFileNames: (settings: ExportSettings, preset: ExportPreset) => string[] // Names in one preset folder, in export order
+  onExport: (settings: ExportSettings) => void
+  onClose: () => void
+}
+
+export default function ExportModal({
+  settings: initialSettings,
+  mockupCount,
+  sampleSize,
+  getFileNames,
+  onExport,
+  onClose
+}: ExportModalProps) {
+  const [settings, setSettings] = useState<ExportSettings>(initialSettings)
+
+  // Block body scroll when modal is open
+  useEffect(() => {
+    document.body.style.overflow = 'hidden'
+    return () => {
+      document.body.style.overflow = ''
+    }
+  }, [])
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const updatePreset = (presetId: string, updates: Partial<ExportPreset>) => {
+    setSettings(prev => ({
+      ...prev,
+      presets: prev.presets.map(preset => preset.id === presetId ? { ...preset, ...updates } : preset)
+    }))
+  }
+
+  const addPreset = () => {
+    setSettings(prev => ({
+      ...prev,
+      presets: [...prev.presets, { id: Math.random().toString(36).substring(2, 11), name: '2000px', maxDimension: 2000, square: false }]
+    }))
+  }
+
+  const removePreset = (presetId: string) => {
+    setSettings(prev => ({ ...prev, presets: prev.presets.filter(preset => preset.id !== presetId) }))
+  }
+
+  // Presets share the ZIP, so their folders must differ
+  const folders = settings.presets.map(getPresetFolder)
+  const hasDuplicateFolders = new Set(folders).size !== folders.length
+  const canExport = settings.presets.length > 0 && !hasDuplicateFolders
+
+  const describeSize = (preset: ExportPreset): string => {
+    if (!sampleSize) return ''
+    const size = getPresetOutputSize(sampleSize.width, sampleSize.height, preset)
+    return `${size.width}×${size.height}px`
+  }
+
+  const previewPreset = settings.presets[0]
+  const previewNames = previewPreset ? getFileNames(settings, previewPreset) : []
+  const extension = getFormatInfo(settings.format).extension
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-700">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Export Mockups</h2>
+            <p className="text-gray-400 text-sm mt-1">
+              {mockupCount} image{mockupCount !== 1 ? 's' : ''} × {settings.presets.length} preset{settings.presets.length !== 1 ? 's' : ''}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition text-2xl font-bold w-10 h-10 flex items-center justify-center rounded hover:bg-gray-700"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {/* Format */}
+          <div>
+            <label className="block text-sm font-medium mb-2">Format</label>
+            <div className="flex gap-2">
+              {EXPORT_FORMATS.map(info => (
+                <button
+                  key={info.value}
+                  onClick={() => setSettings(prev => ({ ...prev, format: info.value as ExportFormat }))}
+                  className={`flex-1 py-2 px-3 rounded text-sm font-medium transition ${
+                    settings.format === info.value
+                      ? 'bg-purple-600 text-white ring-2 ring-purple-400'
+                      : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                  }`}
+                >
+                  {info.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Quality */}
+          {settings.format !== 'png' && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Quality: {settings.quality}</label>
+              <input
+                type="range"
+                min="1"
+                max="100"
+                value={settings.quality}
+                onChange={(e) => setSettings(prev => ({ ...prev, quality: parseInt(e.target.value) }))}
+                className="w-full"
+              />
+            </div>
+          )}
+
+          {/* Background */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <input
+                type="checkbox"
+                checked={settings.background !== null}
+                onChange={(e) => setSettings(prev => ({ ...prev, background: e.target.checked ? '#ffffff' : null }))}
+              />
+              Fill transparent areas
+              {settings.background !== null && (
+                <input
+                  type="color"
+                  value={settings.background}
+                  onChange={(e) => setSettings(prev => ({ ...prev, background: e.target.value }))}
+                  className="w-8 h-6 bg-transparent border border-gray-600 rounded cursor-pointer"
+                />
+              )}
+            </label>
+            {settings.background === null && settings.format === 'jpeg' && (
+              <p className="text-xs text-gray-400 mt-1">JPEG has no transparency - white is used</p>
+            )}
+          </div>
+
+          {/* Size Presets */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium">Size presets (one ZIP folder each)</label>
+              <button
+                onClick={addPreset}
+                className="text-xs py-1 px-3 bg-gray-600 hover:bg-gray-500 text-white rounded transition"
+              >
+                + Add preset
+              </button>
+            </div>
+            <div className="space-y-2">
+              {settings.presets.map(preset => (
+                <div key={preset.id} className="flex items-center gap-2 bg-gray-700 rounded p-2">
+                  <input
+                    type="text"
+                    value={preset.name}
+                    onChange={(e) => updatePreset(preset.id, { name: e.target.value })}
+                    className="flex-1 min-w-0 bg-gray-800 text-white text-sm rounded px-2 py-1 border border-gray-600"
+                    placeholder="Folder name"
+                  />
+                  <input
+                    type="number"
+                    min="1"
+                    value={preset.maxDimension ?? ''}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value)
+                      updatePreset(preset.id, { maxDimension: value > 0 ? value : null })
+                    }}
+                    className="w-24 bg-gray-800 text-white text-sm rounded px-2 py-1 border border-gray-600"
+                    placeholder="Original"
+                    title="Long edge limit in px (empty = original size)"
+                  />
+                  <label className="flex items-center gap-1 text-xs text-gray-300" title="Pad to a square canvas">
+                    <input
+                      type="checkbox"
+                      checked={preset.square}
+                      onChange={(e) => updatePreset(preset.id, { square: e.target.checked })}
+                    />
+                    Square
+                  </label>
+                  <span className="w-24 text-right text-xs text-gray-400">{describeSize(preset)}</span>
+                  <button
+                    onClick={() => removePreset(preset.id)}
+                    disabled={settings.presets.length === 1}
+                    className="px-2 py-1 text-xs bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded transition"
+                    title="Remove preset"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+            {hasDuplicateFolders && (
+              <p className="text-xs text-red-400 mt-2">Preset names must be unique</p>
+            )}
+            {settings.presets.some(preset => preset.square) && settings.background === null && settings.format !== 'jpeg' && (
+              <p className="text-xs text-gray-400 mt-2">Square padding stays transparent without a background fill</p>
+            )}
+          </div>
+
+          {/* File Names */}
+          <div>
+            <label className="block text-sm font-medium mb-2">File name template</label>
+            <input
+              type="text"
+              value={settings.filenameTemplate}
+              onChange={(e) => setSettings(prev => ({ ...prev, filenameTemplate: e.target.value }))}
+              className="w-full bg-gray-700 text-white text-sm rounded px-3 py-2 border border-gray-600 font-mono"
+            />
+            <div className="flex flex-wrap gap-1 mt-2">
+              {FILENAME_TOKENS.map(({ token, description }) => (
+                <button
+                  key={token}
+                  onClick={() => setSettings(prev => ({ ...prev, filenameTemplate: prev.filenameTemplate + token }))}
+                  className="text-xs py-1 px-2 bg-gray-600 hover:bg-gray-500 text-gray-200 rounded font-mono transition"
+                  title={description}
+                >
+                  {token}
+                </button>
+              ))}
+            </div>
+            {previewPreset && previewNames.length > 0 && (
+              <div className="bg-gray-900 rounded p-3 mt-2 text-xs font-mono text-gray-300 space-y-0.5">
+                {previewNames.slice(0, PREVIEW_COUNT).map((name, i) => (
+                  <p key={i} className="truncate" title={name}>{getPresetFolder(previewPreset)}/{name}.{extension}</p>
+                ))}
+                {previewNames.length > PREVIEW_COUNT && (
+                  <p className="text-gray-500">…and {previewNames.length - PREVIEW_COUNT} more</p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onExport(settings)}
+            disabled={!canExport}
+            className="px-6 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded transition"
+          >
+            Download ZIP
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
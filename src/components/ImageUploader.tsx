@@ -1,4 +1,5 @@
 import { useState, useRef, useEffect } from 'react'
+import { PrintArea } from '../utils/printArea'
 
 export interface ImageFile {
   id: string
@@ -11,6 +12,8 @@ export interface ImageFile {
   size: number // File size in bytes
   type: string // MIME type
   ext: string // File extension (e.g., '.png', '.jpg')
+  printArea?: PrintArea | null // Printable region in mockup pixels (persisted with the file)
+  colourways?: string[] // Garment colours (#rrggbb) rendered as separate variants
 }
 
 interface ImageUploaderProps {
@@ -1,10 +1,10 @@
 import { useState } from 'react'
 import { createPortal } from 'react-dom'
-import { ImageFile } from './ImageUploader'
+import { ThumbnailFile } from './MockupModal'
+import { authFetch } from '../utils/auth'
 
 interface ManagerModalProps {
-  mockupFiles: ImageFile[]
-  userId: string
+  mockupFiles: ThumbnailFile[]
   apiBase: string
   onClose: () => void
   onDeleted: () => void
@@ -12,7 +12,6 @@ interface ManagerModalProps {
 
 export default function ManagerModal({
   mockupFiles,
-  userId,
   apiBase,
   onClose,
   onDeleted
@@ -44,7 +43,7 @@ export default function ManagerModal({
       // Delete each file from server/database
       for (const file of filesToRemove) {
         try {
-          const response = await fetch(`${apiBase}/files/${userId}/${encodeURIComponent(file.name)}`, {
+          const response = await authFetch(`${apiBase}/files/${encodeURIComponent(file.name)}`, {
             method: 'DELETE'
           })
 
@@ -75,7 +74,7 @@ export default function ManagerModal({
       // Delete all files from server/database
       for (const file of mockupFiles) {
         try {
-          const response = await fetch(`${apiBase}/files/${userId}/${encodeURIComponent(file.name)}`, {
+          const response = await authFetch(`${apiBase}/files/${encodeURIComponent(file.name)}`, {
             method: 'DELETE'
           })
 
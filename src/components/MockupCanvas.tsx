@@ -1,10 +1,82 @@
 import { useState, useRef, useEffect } from 'react'
 import { createPortal } from 'react-dom'
-import JSZip from 'jszip'
 import ImageUploader, { ImageFile } from './ImageUploader'
-import MockupModal from './MockupModal'
+import MockupModal, { ThumbnailFile } from './MockupModal'
 import ManagerModal from './ManagerModal'
+import ProjectsModal, { ProjectSummary } from './ProjectsModal'
+import ApiKeysModal from './ApiKeysModal'
+import ExportModal from './ExportModal'
+import PreviewTile from './PreviewTile'
+import PrintExportModal, { PrintExportOptions } from './PrintExportModal'
 import { useToast, ToastType } from './Toast'
+import { authFetch } from '../utils/auth'
+import {
+  TextStyle,
+  TextAlign,
+  DEFAULT_TEXT_STYLE,
+  SYSTEM_FONTS,
+  WEB_FONTS,
+  renderTextLayer,
+  loadTextFont,
+  isTextFontLoaded,
+  loadFontFile,
+  getTextLayerName,
+} from '../utils/textLayer'
+import { PrintArea, LayerPlacement, parsePrintArea, drawPrintAreaOverlay, exceedsPrintArea, getLayerCorners } from '../utils/printArea'
+import { DisplacementMap, getDisplacementMap } from '../utils/displacement'
+import { ImageSourceWithSize } from '../utils/canvas'
+import {
+  CompositeLayer,
+  CompositeScene,
+  BLEND_MODES,
+  hitTestLayer,
+  getFitSize,
+  drawCompositeLayer,
+  renderScene,
+  composeMockup,
+  drawLayerOutline,
+} from '../utils/compositor'
+import { LayerWarp, WarpMode, MAX_MESH_SIZE, createWarp, resampleWarp, isIdentityWarp } from '../utils/meshWarp'
+import { normalizeHexColour, recolourMockup } from '../utils/colourway'
+import { History, createHistory, pushHistory, undoHistory, redoHistory } from '../utils/history'
+import {
+  ExportSettings,
+  ExportPreset,
+  loadExportSettings,
+  saveExportSettings,
+  getFormatInfo,
+  getPresetFolder,
+  getPresetOutputSize,
+  encodeExportPresets,
+} from '../utils/exportOptions'
+import { canUseExportWorkers, createExportWorkerPool, getExportWorkerCount } from '../utils/exportWorkerPool'
+import { ZipSink, createZipWriter, openZipSink } from '../utils/zipStream'
+import { TileCache, TileBitmap, createTileCache, getObjectId, renderTileBitmap } from '../utils/tileCache'
+import {
+  TransformHandle,
+  HandlePosition,
+  HANDLE_CURSORS,
+  getTransformHandles,
+  hitTestHandles,
+  getHandleDragUpdates,
+  drawTransformHandles,
+} from '../utils/transformHandles'
+import { getBaseName, getUniqueName, applyFilenameTemplate } from '../utils/filenameTemplate'
+import {
+  SnapSettings,
+  SnapGuide,
+  SnapLayer,
+  SNAP_THRESHOLD,
+  loadSnapSettings,
+  saveSnapSettings,
+  getSnapTargets,
+  snapPosition,
+  drawSnapGuides,
+} from '../utils/snapping'
+import { getPrintAreaBounds, getPrintPixelSize, getPrintMapping, setPngDpi } from '../utils/printExport'
+import PrintAreaModal from './PrintAreaModal'
+import TransformInspector from './TransformInspector'
+import { InspectorSettings, loadInspectorSettings, saveInspectorSettings, getUnitFrame } from '../utils/inspector'
 
 interface Transform {
   x: number
@@ -14,35 +86,35 @@ interface Transform {
   scaleY: number
   rotation: number
   opacity: number
+  warp?: LayerWarp | null // Perspective or mesh warp (per-mockup edits only)
 }
 
+// Default transform for layers without a placement yet
+const DEFAULT_TRANSFORM: Transform = { x: 0, y: 0, scale: 1.0, scaleX: 1.0, scaleY: 1.0, rotation: 0, opacity: 100 }
+
 // Interactive Preview Component
 interface InteractivePreviewProps {
   mockupImage: HTMLImageElement | null
-  designImage: HTMLImageElement | null
-  design2Image: HTMLImageElement | null
-  design1Transform: Transform
-  design2Transform: Transform
-  design1BlendMode: BlendMode
-  design2BlendMode: BlendMode
-  activeLayer: 'design1' | 'design2'
-  onDesign1TransformChange: (updates: Partial<Transform>) => void
-  onDesign2TransformChange: (updates: Partial<Transform>) => void
+  layers: DesignState[] // Layer stack with effective transforms/blend modes for this mockup
+  activeLayerId: string | null
+  printArea: PrintArea | null
+  displacementMap: DisplacementMap | null
+  displacementStrength: number
+  snapSettings: SnapSettings
+  onLayerTransformChange: (layerId: string, updates: Partial<Transform>) => void
 }
 
 const API_BASE = `${import.meta.env.VITE_API_BASE_URL || 'https://mockupai.supover.com'}/api`
 
 function InteractivePreview({
   mockupImage,
-  designImage,
-  design2Image,
-  design1Transform,
-  design2Transform,
-  design1BlendMode,
-  design2BlendMode,
-  activeLayer,
-  onDesign1TransformChange,
-  onDesign2TransformChange
+  layers,
+  activeLayerId,
+  printArea,
+  displacementMap,
+  displacementStrength,
+  snapSettings,
+  onLayerTransformChange
 }: InteractivePreviewProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [isDragging, setIsDragging] = useState(false)
@@ -51,11 +123,17 @@ function InteractivePreview({
   const rafRef = useRef<number | null>(null)
   const [lastPinchDistance, setLastPinchDistance] = useState<number | null>(null)
   const [pinchInitialScale, setPinchInitialScale] = useState(1)
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([])
 
   // Get active layer's properties
-  const currentTransform = activeLayer === 'design1' ? design1Transform : design2Transform
-  const currentImage = activeLayer === 'design1' ? designImage : design2Image
-  const onTransformChange = activeLayer === 'design1' ? onDesign1TransformChange : onDesign2TransformChange
+  const activeLayer = layers.find(layer => layer.id === activeLayerId) ?? null
+  const currentTransform = activeLayer ? activeLayer.transform : DEFAULT_TRANSFORM
+  const currentImage = activeLayer?.image ?? null
+  const onTransformChange = (updates: Partial<Transform>) => {
+    if (activeLayer) {
+      onLayerTransformChange(activeLayer.id, updates)
+    }
+  }
 
   // Local transform for smooth updates
   const [localTransform, setLocalTransform] = useState(currentTransform)
@@ -63,7 +141,7 @@ function InteractivePreview({
   // Update local transform when active layer or props change
   useEffect(() => {
     setLocalTransform(currentTransform)
-  }, [currentTransform, activeLayer])
+  }, [currentTransform, activeLayerId])
 
   // Draw preview
   useEffect(() => {
@@ -74,16 +152,7 @@ function InteractivePreview({
     if (!ctx) return
 
     // Set canvas size to a fixed preview size
-    const previewSize = 400
-    const aspectRatio = mockupImage.width / mockupImage.height
-    let width = previewSize
-    let height = previewSize / aspectRatio
-
-    if (aspectRatio < 1) {
-      width = previewSize * aspectRatio
-      height = previewSize
-    }
-
+    const { width, height } = getFitSize(mockupImage.width, mockupImage.height, PREVIEW_SIZE, PREVIEW_SIZE)
     canvas.width = width
     canvas.height = height
 
@@ -91,56 +160,36 @@ function InteractivePreview({
     const scaleX = width / mockupImage.width
     const scaleY = height / mockupImage.height
 
-    // Clear and draw mockup
-    ctx.clearRect(0, 0, width, height)
-    ctx.drawImage(mockupImage, 0, 0, width, height)
+    // Draw mockup and every visible layer, back to front
+    renderScene(ctx, { background: mockupImage, layers: toCompositeLayers(layers), printArea, displacementMap, displacementStrength })
 
-    // Draw design 1 if available
-    if (designImage) {
-      ctx.save()
-      ctx.globalCompositeOperation = design1BlendMode
-      ctx.globalAlpha = design1Transform.opacity / 100
-      ctx.translate(design1Transform.x * scaleX, design1Transform.y * scaleY)
-      ctx.rotate((design1Transform.rotation * Math.PI) / 180)
-      ctx.scale(design1Transform.scale * design1Transform.scaleX * scaleX, design1Transform.scale * design1Transform.scaleY * scaleY)
-      ctx.drawImage(
-        designImage,
-        -designImage.width / 2,
-        -designImage.height / 2
-      )
-      ctx.restore()
+    // Draw print area boundary
+    if (printArea) {
+      drawPrintAreaOverlay(ctx, printArea, scaleX, scaleY)
     }
 
-    // Draw design 2 if available
-    if (design2Image) {
-      ctx.save()
-      ctx.globalCompositeOperation = design2BlendMode
-      ctx.globalAlpha = design2Transform.opacity / 100
-      ctx.translate(design2Transform.x * scaleX, design2Transform.y * scaleY)
-      ctx.rotate((design2Transform.rotation * Math.PI) / 180)
-      ctx.scale(design2Transform.scale * design2Transform.scaleX * scaleX, design2Transform.scale * design2Transform.scaleY * scaleY)
-      ctx.drawImage(
-        design2Image,
-        -design2Image.width / 2,
-        -design2Image.height / 2
-      )
-      ctx.restore()
+    // Draw active layer highlight and alignment guides
+    if (activeLayer && currentImage) {
+      drawLayerOutline(ctx, { image: currentImage, placement: localTransform }, getLayerColor(activeLayer.order).stroke, scaleX, scaleY)
     }
-
-    // Draw active layer highlight
-    if (currentImage) {
-      ctx.save()
-      ctx.strokeStyle = activeLayer === 'design1' ? '#10b981' : '#f97316' // green for design1, orange for design2
-      ctx.lineWidth = 3
-      ctx.setLineDash([5, 5])
-      ctx.translate(localTransform.x * scaleX, localTransform.y * scaleY)
-      ctx.rotate((localTransform.rotation * Math.PI) / 180)
-      const w = currentImage.width * localTransform.scale * localTransform.scaleX * scaleX
-      const h = currentImage.height * localTransform.scale * localTransform.scaleY * scaleY
-      ctx.strokeRect(-w / 2, -h / 2, w, h)
-      ctx.restore()
+    drawSnapGuides(ctx, snapGuides, scaleX, scaleY)
+  }, [mockupImage, layers, printArea, displacementMap, displacementStrength, localTransform, activeLayer, currentImage, snapGuides])
+
+  // Snap a dragged position (mockup px); Ctrl/Cmd places freely. `displayWidth` is the canvas's on-screen width.
+  const snapDragPosition = (x: number, y: number, displayWidth: number, free: boolean): { x: number; y: number } => {
+    if (!mockupImage || !activeLayer || !currentImage || free) {
+      setSnapGuides([])
+      return { x, y }
     }
-  }, [mockupImage, designImage, design2Image, design1Transform, design2Transform, design1BlendMode, design2BlendMode, localTransform, activeLayer, currentImage])
+    const snapped = snapPosition(
+      { placement: { ...localTransform, x, y }, width: currentImage.width, height: currentImage.height },
+      getSnapTargets(mockupImage.width, mockupImage.height, printArea, toSnapLayers(layers, activeLayer.id)),
+      snapSettings,
+      (SNAP_THRESHOLD * mockupImage.width) / displayWidth
+    )
+    setSnapGuides(snapped.guides)
+    return snapped
+  }
 
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (!mockupImage || !currentImage) return
@@ -180,8 +229,12 @@ function InteractivePreview({
     const mockupScaleX = mockupImage.width / canvas.width
     const mockupScaleY = mockupImage.height / canvas.height
 
-    const newX = dragInitial.x + (dx * mockupScaleX)
-    const newY = dragInitial.y + (dy * mockupScaleY)
+    const { x: newX, y: newY } = snapDragPosition(
+      dragInitial.x + (dx * mockupScaleX),
+      dragInitial.y + (dy * mockupScaleY),
+      rect.width,
+      e.ctrlKey || e.metaKey
+    )
 
     // Update local state immediately for smooth rendering
     setLocalTransform(prev => ({ ...prev, x: newX, y: newY }))
@@ -199,6 +252,7 @@ function InteractivePreview({
 
   const handleMouseUp = () => {
     setIsDragging(false)
+    setSnapGuides([])
   }
 
   const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
@@ -301,8 +355,12 @@ function InteractivePreview({
       const mockupScaleX = mockupImage.width / canvas.width
       const mockupScaleY = mockupImage.height / canvas.height
 
-      const newX = dragInitial.x + (dx * mockupScaleX)
-      const newY = dragInitial.y + (dy * mockupScaleY)
+      const { x: newX, y: newY } = snapDragPosition(
+        dragInitial.x + (dx * mockupScaleX),
+        dragInitial.y + (dy * mockupScaleY),
+        rect.width,
+        false
+      )
 
       // Update local state immediately for smooth rendering
       setLocalTransform(prev => ({ ...prev, x: newX, y: newY }))
@@ -324,6 +382,7 @@ function InteractivePreview({
   const handleTouchEnd = () => {
     setIsDragging(false)
     setLastPinchDistance(null)
+    setSnapGuides([])
   }
 
   return (
@@ -353,8 +412,13 @@ function InteractivePreview({
         />
       </div>
       <p className="text-xs text-gray-400 mt-2">
-        Drag to move • Scroll or pinch to scale • {activeLayer === 'design1' ? 'Green' : 'Orange'} outline = active layer
+        Drag to move (snaps to guides, Ctrl/⌘ for free) • Scroll or pinch to scale • Dashed outline = active layer
       </p>
+      {getLayersOutsidePrintArea(layers, printArea).length > 0 && (
+        <p className="text-xs text-yellow-400 mt-1">
+          ⚠ Outside print area: {getLayersOutsidePrintArea(layers, printArea).map(layer => layer.name).join(', ')}
+        </p>
+      )}
     </div>
   )
 }
@@ -362,22 +426,22 @@ function InteractivePreview({
 // Expanded Transform Modal Component (batch transform for all non-edited mockups)
 interface ExpandedTransformModalProps {
   mockupImage: HTMLImageElement | null
-  designImage: HTMLImageElement | null
-  design2Image: HTMLImageElement | null
-  design1Transform: Transform
-  design2Transform: Transform
-  activeLayer: 'design1' | 'design2'
-  onApply: (design1Updates: Partial<Transform>, design2Updates: Partial<Transform>) => void
+  layers: DesignState[]
+  activeLayerId: string | null
+  printArea: PrintArea | null
+  displacementMap: DisplacementMap | null
+  displacementStrength: number
+  onApply: (layerUpdates: Record<string, Partial<Transform>>) => void
   onClose: () => void
 }
 
 function ExpandedTransformModal({
   mockupImage,
-  designImage,
-  design2Image,
-  design1Transform,
-  design2Transform,
-  activeLayer: initialActiveLayer,
+  layers,
+  activeLayerId: initialActiveLayerId,
+  printArea,
+  displacementMap,
+  displacementStrength,
   onApply,
   onClose
 }: ExpandedTransformModalProps) {
@@ -389,16 +453,21 @@ function ExpandedTransformModal({
   const [pinchInitialScale, setPinchInitialScale] = useState(1)
 
   // Active layer state (can be switched by tabs)
-  const [activeLayer, setActiveLayer] = useState<'design1' | 'design2'>(initialActiveLayer)
+  const [activeLayerId, setActiveLayerId] = useState<string | null>(initialActiveLayerId)
 
-  // Independent local transform state for each design - initialize with current values
-  const [localDesign1Transform, setLocalDesign1Transform] = useState<Transform>(() => ({ ...design1Transform }))
-  const [localDesign2Transform, setLocalDesign2Transform] = useState<Transform>(() => ({ ...design2Transform }))
+  // Independent local transform state for each layer - initialize with current values
+  const [localTransforms, setLocalTransforms] = useState<Record<string, Transform>>(() =>
+    Object.fromEntries(layers.map(layer => [layer.id, { ...layer.transform }]))
+  )
 
   // Get active layer's properties
-  const currentTransform = activeLayer === 'design1' ? localDesign1Transform : localDesign2Transform
-  const setCurrentTransform = activeLayer === 'design1' ? setLocalDesign1Transform : setLocalDesign2Transform
-  const currentImage = activeLayer === 'design1' ? designImage : design2Image
+  const activeLayer = layers.find(layer => layer.id === activeLayerId) ?? null
+  const currentTransform = (activeLayerId && localTransforms[activeLayerId]) || DEFAULT_TRANSFORM
+  const setCurrentTransform = (update: (prev: Transform) => Transform) => {
+    if (!activeLayerId) return
+    setLocalTransforms(prev => ({ ...prev, [activeLayerId]: update(prev[activeLayerId] ?? DEFAULT_TRANSFORM) }))
+  }
+  const currentImage = activeLayer?.image ?? null
 
   // Block body scroll when modal is open
   useEffect(() => {
@@ -423,21 +492,24 @@ function ExpandedTransformModal({
 
   // Handle Apply button
   const handleApply = () => {
-    // Calculate which properties have changed for Design 1
-    const design1Updates: Partial<Transform> = {}
-    if (localDesign1Transform.x !== design1Transform.x) design1Updates.x = localDesign1Transform.x
-    if (localDesign1Transform.y !== design1Transform.y) design1Updates.y = localDesign1Transform.y
-    if (localDesign1Transform.scale !== design1Transform.scale) design1Updates.scale = localDesign1Transform.scale
-    if (localDesign1Transform.rotation !== design1Transform.rotation) design1Updates.rotation = localDesign1Transform.rotation
-
-    // Calculate which properties have changed for Design 2
-    const design2Updates: Partial<Transform> = {}
-    if (localDesign2Transform.x !== design2Transform.x) design2Updates.x = localDesign2Transform.x
-    if (localDesign2Transform.y !== design2Transform.y) design2Updates.y = localDesign2Transform.y
-    if (localDesign2Transform.scale !== design2Transform.scale) design2Updates.scale = localDesign2Transform.scale
-    if (localDesign2Transform.rotation !== design2Transform.rotation) design2Updates.rotation = localDesign2Transform.rotation
-
-    onApply(design1Updates, design2Updates)
+    // Calculate which properties have changed for each layer
+    const layerUpdates: Record<string, Partial<Transform>> = {}
+    layers.forEach(layer => {
+      const local = localTransforms[layer.id]
+      if (!local) return
+
+      const updates: Partial<Transform> = {}
+      if (local.x !== layer.transform.x) updates.x = local.x
+      if (local.y !== layer.transform.y) updates.y = local.y
+      if (local.scale !== layer.transform.scale) updates.scale = local.scale
+      if (local.rotation !== layer.transform.rotation) updates.rotation = local.rotation
+
+      if (Object.keys(updates).length > 0) {
+        layerUpdates[layer.id] = updates
+      }
+    })
+
+    onApply(layerUpdates)
     onClose()
   }
 
@@ -496,18 +568,7 @@ function ExpandedTransformModal({
     if (!ctx) return
 
     // Use 80% of viewport for canvas size
-    const maxWidth = window.innerWidth * 0.8
-    const maxHeight = window.innerHeight * 0.8
-    const aspectRatio = mockupImage.width / mockupImage.height
-
-    let width = maxWidth
-    let height = maxWidth / aspectRatio
-
-    if (height > maxHeight) {
-      height = maxHeight
-      width = maxHeight * aspectRatio
-    }
-
+    const { width, height } = getFitSize(mockupImage.width, mockupImage.height, window.innerWidth * 0.8, window.innerHeight * 0.8)
     canvas.width = width
     canvas.height = height
 
@@ -515,54 +576,25 @@ function ExpandedTransformModal({
     const scaleX = width / mockupImage.width
     const scaleY = height / mockupImage.height
 
-    // Clear and draw mockup
-    ctx.clearRect(0, 0, width, height)
-    ctx.drawImage(mockupImage, 0, 0, width, height)
-
-    // Draw design 1 if available
-    if (designImage) {
-      ctx.save()
-      ctx.globalAlpha = localDesign1Transform.opacity / 100
-      ctx.translate(localDesign1Transform.x * scaleX, localDesign1Transform.y * scaleY)
-      ctx.rotate((localDesign1Transform.rotation * Math.PI) / 180)
-      ctx.scale(localDesign1Transform.scale * localDesign1Transform.scaleX * scaleX, localDesign1Transform.scale * localDesign1Transform.scaleY * scaleY)
-      ctx.drawImage(
-        designImage,
-        -designImage.width / 2,
-        -designImage.height / 2
-      )
-      ctx.restore()
-    }
+    // Draw mockup and every visible layer with its local transform, back to front
+    renderScene(ctx, {
+      background: mockupImage,
+      layers: toCompositeLayers(layers, layer => localTransforms[layer.id]),
+      printArea,
+      displacementMap,
+      displacementStrength
+    })
 
-    // Draw design 2 if available
-    if (design2Image) {
-      ctx.save()
-      ctx.globalAlpha = localDesign2Transform.opacity / 100
-      ctx.translate(localDesign2Transform.x * scaleX, localDesign2Transform.y * scaleY)
-      ctx.rotate((localDesign2Transform.rotation * Math.PI) / 180)
-      ctx.scale(localDesign2Transform.scale * localDesign2Transform.scaleX * scaleX, localDesign2Transform.scale * localDesign2Transform.scaleY * scaleY)
-      ctx.drawImage(
-        design2Image,
-        -design2Image.width / 2,
-        -design2Image.height / 2
-      )
-      ctx.restore()
+    // Draw print area boundary
+    if (printArea) {
+      drawPrintAreaOverlay(ctx, printArea, scaleX, scaleY)
     }
 
     // Draw active layer outline (with local transform)
-    if (currentImage) {
-      ctx.save()
-      ctx.strokeStyle = activeLayer === 'design1' ? '#10b981' : '#f97316'
-      ctx.lineWidth = 3
-      ctx.setLineDash([5, 5])
-      ctx.translate(currentTransform.x * scaleX, currentTransform.y * scaleY)
-      ctx.rotate((currentTransform.rotation * Math.PI) / 180)
-      const w = currentImage.width * currentTransform.scale * currentTransform.scaleX * scaleX
-      const h = currentImage.height * currentTransform.scale * currentTransform.scaleY * scaleY
-      ctx.strokeRect(-w / 2, -h / 2, w, h)
-      ctx.restore()
+    if (activeLayer && currentImage) {
+      drawLayerOutline(ctx, { image: currentImage, placement: currentTransform }, getLayerColor(activeLayer.order).stroke, scaleX, scaleY)
     }
-  }, [mockupImage, designImage, design2Image, localDesign1Transform, localDesign2Transform, currentTransform, activeLayer, currentImage])
+  }, [mockupImage, layers, printArea, displacementMap, displacementStrength, localTransforms, currentTransform, activeLayer, currentImage])
 
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (!mockupImage || !currentImage) return
@@ -726,38 +758,29 @@ function ExpandedTransformModal({
         {/* Header with Layer Selector, Stats, Apply and Close buttons */}
         <div className="mb-4 flex items-center gap-4 bg-gray-800 px-6 py-3 rounded-lg w-full">
           {/* Layer Selector Buttons */}
-          <div className="flex gap-2">
-            {designImage && (
-              <button
-                onClick={() => setActiveLayer('design1')}
-                className={`px-3 py-2 text-sm font-medium rounded transition ${
-                  activeLayer === 'design1'
-                    ? 'bg-green-600 text-white ring-2 ring-green-400'
-                    : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
-                }`}
-                title="Edit Design 1"
-              >
-                Design 1
-              </button>
-            )}
-            {design2Image && (
+          <div className="flex flex-wrap gap-2">
+            {layers.filter(layer => layer.image).map(layer => (
               <button
-                onClick={() => setActiveLayer('design2')}
+                key={layer.id}
+                onClick={() => setActiveLayerId(layer.id)}
                 className={`px-3 py-2 text-sm font-medium rounded transition ${
-                  activeLayer === 'design2'
-                    ? 'bg-orange-600 text-white ring-2 ring-orange-400'
+                  activeLayerId === layer.id
+                    ? getLayerColor(layer.order).activeClass
                     : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
                 }`}
-                title="Edit Design 2"
+                title={`Edit ${layer.name}`}
               >
-                Design 2
+                {layer.name}
               </button>
-            )}
+            ))}
           </div>
 
           <div className="text-sm text-gray-300 flex-1">
             X: {currentTransform.x.toFixed(0)} • Y: {currentTransform.y.toFixed(0)} • Scale: {currentTransform.scale.toFixed(2)}x •
             Rotation: {currentTransform.rotation}°
+            {getLayersOutsidePrintArea(layers.map(layer => ({ ...layer, transform: localTransforms[layer.id] ?? layer.transform })), printArea).length > 0 && (
+              <span className="text-yellow-400 ml-2">⚠ Outside print area</span>
+            )}
           </div>
           <button
             onClick={handleApply}
@@ -852,34 +875,53 @@ function ExpandedTransformModal({
 }
 
 // Edit Modal Component (standalone, triggered by Edit button)
+// Radius (canvas px) of warp control point handles
+const WARP_HANDLE_RADIUS = 6
+
 interface EditModalProps {
   mockupImage: HTMLImageElement | null
-  design1Image: HTMLImageElement | null
-  design2Image: HTMLImageElement | null
-  design1Transform: Transform
-  design2Transform: Transform
-  onDesign1TransformChange: (transform: Transform) => void
-  onDesign2TransformChange: (transform: Transform) => void
+  layers: DesignState[] // Layer stack with effective transforms for this mockup
+  activeLayerId: string | null
+  printArea: PrintArea | null
+  displacementMap: DisplacementMap | null
+  displacementStrength: number
+  snapSettings: SnapSettings
+  onApply: (transforms: Record<string, Transform>) => void
   onClose: () => void
 }
 
-function EditModal({ mockupImage, design1Image, design2Image, design1Transform, design2Transform, onDesign1TransformChange, onDesign2TransformChange, onClose }: EditModalProps) {
+function EditModal({
+  mockupImage,
+  layers,
+  activeLayerId: initialActiveLayerId,
+  printArea,
+  displacementMap,
+  displacementStrength,
+  snapSettings,
+  onApply,
+  onClose
+}: EditModalProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [isDragging, setIsDragging] = useState(false)
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 })
   const [dragInitial, setDragInitial] = useState({ x: 0, y: 0 })
 
   // Active layer state
-  const [activeLayer, setActiveLayer] = useState<'design1' | 'design2'>('design1')
+  const [activeLayerId, setActiveLayerId] = useState<string | null>(initialActiveLayerId)
 
   // Local state: clone transforms on open, only commit on Apply
-  const [localDesign1Transform, setLocalDesign1Transform] = useState<Transform>(() => ({ ...design1Transform }))
-  const [localDesign2Transform, setLocalDesign2Transform] = useState<Transform>(() => ({ ...design2Transform }))
+  const [localTransforms, setLocalTransforms] = useState<Record<string, Transform>>(() =>
+    Object.fromEntries(layers.map(layer => [layer.id, { ...layer.transform }]))
+  )
 
   // Get active layer's properties
-  const currentTransform = activeLayer === 'design1' ? localDesign1Transform : localDesign2Transform
-  const setCurrentTransform = activeLayer === 'design1' ? setLocalDesign1Transform : setLocalDesign2Transform
-  const currentImage = activeLayer === 'design1' ? design1Image : design2Image
+  const activeLayer = layers.find(layer => layer.id === activeLayerId) ?? null
+  const currentTransform = (activeLayerId && localTransforms[activeLayerId]) || DEFAULT_TRANSFORM
+  const setCurrentTransform = (update: (prev: Transform) => Transform) => {
+    if (!activeLayerId) return
+    setLocalTransforms(prev => ({ ...prev, [activeLayerId]: update(prev[activeLayerId] ?? DEFAULT_TRANSFORM) }))
+  }
+  const currentImage = activeLayer?.image ?? null
 
   const [lastPinchDistance, setLastPinchDistance] = useState<number | null>(null)
   const [pinchInitialScale, setPinchInitialScale] = useState(1)
@@ -888,6 +930,13 @@ function EditModal({ mockupImage, design1Image, design2Image, design1Transform,
   const [handleDragStart, setHandleDragStart] = useState({ x: 0, y: 0 })
   const [handleInitialScale, setHandleInitialScale] = useState({ scaleX: 1, scaleY: 1 })
 
+  // Warp state: index of the control point being dragged and grid size for new meshes
+  const [draggingWarpPoint, setDraggingWarpPoint] = useState<number | null>(null)
+  const [meshSize, setMeshSize] = useState({ cols: 3, rows: 3 })
+
+  // Alignment guides shown while dragging
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([])
+
   // Block body scroll when modal is open
   useEffect(() => {
     document.body.style.overflow = 'hidden'
@@ -909,13 +958,49 @@ function EditModal({ mockupImage, design1Image, design2Image, design1Transform,
     return rotation
   }
 
-  // Handle Apply button
+  // Handle Apply button (warps left undistorted are dropped)
   const handleApply = () => {
-    onDesign1TransformChange(localDesign1Transform)
-    onDesign2TransformChange(localDesign2Transform)
+    onApply(Object.fromEntries(Object.entries(localTransforms).map(([layerId, transform]) => [
+      layerId,
+      transform.warp && isIdentityWarp(transform.warp) ? { ...transform, warp: null } : transform
+    ])))
     onClose()
   }
 
+  // Switch the active layer's warp mode, keeping the current shape where possible
+  const setWarpMode = (mode: WarpMode | null, size = meshSize) => {
+    setCurrentTransform(prev => {
+      if (!mode) return { ...prev, warp: null }
+      return {
+        ...prev,
+        warp: prev.warp ? resampleWarp(prev.warp, mode, size.cols, size.rows) : createWarp(mode, size.cols, size.rows)
+      }
+    })
+  }
+
+  // Warp control points of the active layer in canvas coordinates
+  const getWarpHandles = (canvas: HTMLCanvasElement) => {
+    if (!mockupImage || !currentImage || !currentTransform.warp) return []
+    const scaleX = canvas.width / mockupImage.width
+    const scaleY = canvas.height / mockupImage.height
+    return getLayerCorners(currentTransform, currentImage.width, currentImage.height)
+      .map(point => ({ x: point.x * scaleX, y: point.y * scaleY }))
+  }
+
+  // Convert a canvas point to warp coordinates (normalized to the active layer's unwarped rect)
+  const canvasToWarpPoint = (canvas: HTMLCanvasElement, canvasX: number, canvasY: number) => {
+    if (!mockupImage || !currentImage) return { x: 0, y: 0 }
+    const dx = canvasX * (mockupImage.width / canvas.width) - currentTransform.x
+    const dy = canvasY * (mockupImage.height / canvas.height) - currentTransform.y
+    const radians = (currentTransform.rotation * Math.PI) / 180
+    const localX = dx * Math.cos(radians) + dy * Math.sin(radians)
+    const localY = -dx * Math.sin(radians) + dy * Math.cos(radians)
+    return {
+      x: localX / (currentImage.width * currentTransform.scale * currentTransform.scaleX) + 0.5,
+      y: localY / (currentImage.height * currentTransform.scale * currentTransform.scaleY) + 0.5
+    }
+  }
+
   // Handle Close button (discard changes)
   const handleClose = () => {
     onClose()
@@ -971,18 +1056,7 @@ function EditModal({ mockupImage, design1Image, design2Image, design1Transform,
     if (!ctx) return
 
     // Use 80% of viewport for canvas size
-    const maxWidth = window.innerWidth * 0.8
-    const maxHeight = window.innerHeight * 0.8
-    const aspectRatio = mockupImage.width / mockupImage.height
-
-    let width = maxWidth
-    let height = maxWidth / aspectRatio
-
-    if (height > maxHeight) {
-      height = maxHeight
-      width = maxHeight * aspectRatio
-    }
-
+    const { width, height } = getFitSize(mockupImage.width, mockupImage.height, window.innerWidth * 0.8, window.innerHeight * 0.8)
     canvas.width = width
     canvas.height = height
 
@@ -990,54 +1064,80 @@ function EditModal({ mockupImage, design1Image, design2Image, design1Transform,
     const scaleX = width / mockupImage.width
     const scaleY = height / mockupImage.height
 
-    // Clear and draw mockup
-    ctx.clearRect(0, 0, width, height)
-    ctx.drawImage(mockupImage, 0, 0, width, height)
+    // Draw mockup and every visible layer with its local transform, back to front
+    renderScene(ctx, {
+      background: mockupImage,
+      layers: toCompositeLayers(layers, layer => localTransforms[layer.id]),
+      printArea,
+      displacementMap,
+      displacementStrength
+    })
 
-    // Draw design 1 if available
-    if (design1Image) {
-      ctx.save()
-      ctx.globalAlpha = localDesign1Transform.opacity / 100
-      ctx.translate(localDesign1Transform.x * scaleX, localDesign1Transform.y * scaleY)
-      ctx.rotate((localDesign1Transform.rotation * Math.PI) / 180)
-      ctx.scale(localDesign1Transform.scale * localDesign1Transform.scaleX * scaleX, localDesign1Transform.scale * localDesign1Transform.scaleY * scaleY)
-      ctx.drawImage(
-        design1Image,
-        -design1Image.width / 2,
-        -design1Image.height / 2
-      )
-      ctx.restore()
+    // Draw print area boundary
+    if (printArea) {
+      drawPrintAreaOverlay(ctx, printArea, scaleX, scaleY)
     }
 
-    // Draw design 2 if available
-    if (design2Image) {
+    // Draw warp grid and control points of the active layer
+    if (activeLayer && currentImage && currentTransform.warp) {
+      const warp = currentTransform.warp
+      const handles = getWarpHandles(canvas)
+      const stride = warp.cols + 1
       ctx.save()
-      ctx.globalAlpha = localDesign2Transform.opacity / 100
-      ctx.translate(localDesign2Transform.x * scaleX, localDesign2Transform.y * scaleY)
-      ctx.rotate((localDesign2Transform.rotation * Math.PI) / 180)
-      ctx.scale(localDesign2Transform.scale * localDesign2Transform.scaleX * scaleX, localDesign2Transform.scale * localDesign2Transform.scaleY * scaleY)
-      ctx.drawImage(
-        design2Image,
-        -design2Image.width / 2,
-        -design2Image.height / 2
-      )
+      ctx.strokeStyle = getLayerColor(activeLayer.order).stroke
+      ctx.fillStyle = '#ffffff'
+      ctx.lineWidth = 1.5
+      ctx.beginPath()
+      handles.forEach((handle, i) => {
+        const col = i % stride
+        const row = Math.floor(i / stride)
+        if (col < warp.cols) {
+          ctx.moveTo(handle.x, handle.y)
+          ctx.lineTo(handles[i + 1].x, handles[i + 1].y)
+        }
+        if (row < warp.rows) {
+          ctx.moveTo(handle.x, handle.y)
+          ctx.lineTo(handles[i + stride].x, handles[i + stride].y)
+        }
+      })
+      ctx.stroke()
+      handles.forEach(handle => {
+        ctx.beginPath()
+        ctx.arc(handle.x, handle.y, WARP_HANDLE_RADIUS, 0, Math.PI * 2)
+        ctx.fill()
+        ctx.stroke()
+      })
       ctx.restore()
+    } else if (activeLayer && currentImage) {
+      // Draw active layer outline
+      drawLayerOutline(ctx, { image: currentImage, placement: currentTransform }, getLayerColor(activeLayer.order).stroke, scaleX, scaleY)
     }
 
-    // Draw active layer outline
-    if (currentImage) {
-      ctx.save()
-      ctx.strokeStyle = activeLayer === 'design1' ? '#10b981' : '#f97316' // green for design1, orange for design2
-      ctx.lineWidth = 3
-      ctx.setLineDash([5, 5])
-      ctx.translate(currentTransform.x * scaleX, currentTransform.y * scaleY)
-      ctx.rotate((currentTransform.rotation * Math.PI) / 180)
-      const w = currentImage.width * currentTransform.scale * currentTransform.scaleX * scaleX
-      const h = currentImage.height * currentTransform.scale * currentTransform.scaleY * scaleY
-      ctx.strokeRect(-w / 2, -h / 2, w, h)
-      ctx.restore()
+    drawSnapGuides(ctx, snapGuides, scaleX, scaleY)
+  }, [mockupImage, layers, printArea, displacementMap, displacementStrength, localTransforms, activeLayer, currentImage, currentTransform, snapGuides])
+
+  // Snap a dragged position (mockup px); Ctrl/Cmd places freely. `displayWidth` is the canvas's on-screen width.
+  const snapDragPosition = (
+    x: number,
+    y: number,
+    displayWidth: number,
+    free: boolean,
+    axes?: { x: boolean; y: boolean }
+  ): { x: number; y: number } => {
+    if (!mockupImage || !activeLayerId || !currentImage || free) {
+      setSnapGuides([])
+      return { x, y }
     }
-  }, [mockupImage, design1Image, design2Image, localDesign1Transform, localDesign2Transform, activeLayer, currentImage, currentTransform])
+    const snapped = snapPosition(
+      { placement: { ...currentTransform, x, y }, width: currentImage.width, height: currentImage.height },
+      getSnapTargets(mockupImage.width, mockupImage.height, printArea, toSnapLayers(layers, activeLayerId, layer => localTransforms[layer.id])),
+      snapSettings,
+      (SNAP_THRESHOLD * mockupImage.width) / displayWidth,
+      axes
+    )
+    setSnapGuides(snapped.guides)
+    return snapped
+  }
 
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (!mockupImage || !currentImage) return
@@ -1051,6 +1151,16 @@ function EditModal({ mockupImage, design1Image, design2Image, design1Transform,
     const mouseX = (e.clientX - rect.left) * scaleX
     const mouseY = (e.clientY - rect.top) * scaleY
 
+    // Grab a warp control point if one is under the cursor
+    const handleIndex = getWarpHandles(canvas).findIndex(handle =>
+      Math.hypot(handle.x - mouseX, handle.y - mouseY) <= WARP_HANDLE_RADIUS * 2
+    )
+    if (handleIndex !== -1) {
+      setDraggingWarpPoint(handleIndex)
+      e.preventDefault()
+      return
+    }
+
     setIsDragging(true)
     setDragStart({ x: mouseX, y: mouseY })
     setDragInitial({ x: currentTransform.x, y: currentTransform.y })
@@ -1064,7 +1174,7 @@ function EditModal({ mockupImage, design1Image, design2Image, design1Transform,
   }
 
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDragging || !mockupImage) return
+    if ((!isDragging && draggingWarpPoint === null) || !mockupImage) return
 
     const canvas = canvasRef.current
     if (!canvas) return
@@ -1075,6 +1185,16 @@ function EditModal({ mockupImage, design1Image, design2Image, design1Transform,
     const mouseX = (e.clientX - rect.left) * scaleX
     const mouseY = (e.clientY - rect.top) * scaleY
 
+    // Move the grabbed warp control point
+    if (draggingWarpPoint !== null) {
+      const point = canvasToWarpPoint(canvas, mouseX, mouseY)
+      setCurrentTransform(prev => prev.warp
+        ? { ...prev, warp: { ...prev.warp, points: prev.warp.points.map((p, i) => (i === draggingWarpPoint ? point : p)) } }
+        : prev
+      )
+      return
+    }
+
     // Calculate delta in canvas space
     let dx = mouseX - dragStart.x
     let dy = mouseY - dragStart.y
@@ -1092,8 +1212,14 @@ function EditModal({ mockupImage, design1Image, design2Image, design1Transform,
     const mockupScaleX = mockupImage.width / canvas.width
     const mockupScaleY = mockupImage.height / canvas.height
 
-    const newX = dragInitial.x + (dx * mockupScaleX)
-    const newY = dragInitial.y + (dy * mockupScaleY)
+    // A Shift-locked axis stays put
+    const { x: newX, y: newY } = snapDragPosition(
+      dragInitial.x + (dx * mockupScaleX),
+      dragInitial.y + (dy * mockupScaleY),
+      rect.width,
+      e.ctrlKey || e.metaKey,
+      { x: !e.shiftKey || dx !== 0, y: !e.shiftKey || dy !== 0 }
+    )
 
     // Update local state immediately for smooth rendering
     setCurrentTransform(prev => ({ ...prev, x: newX, y: newY }))
@@ -1101,6 +1227,8 @@ function EditModal({ mockupImage, design1Image, design2Image, design1Transform,
 
   const handleMouseUp = () => {
     setIsDragging(false)
+    setSnapGuides([])
+    setDraggingWarpPoint(null)
     setScaleAnchor(null)
   }
 
@@ -1216,8 +1344,12 @@ function EditModal({ mockupImage, design1Image, design2Image, design1Transform,
       const mockupScaleX = mockupImage.width / canvas.width
       const mockupScaleY = mockupImage.height / canvas.height
 
-      const newX = dragInitial.x + (dx * mockupScaleX)
-      const newY = dragInitial.y + (dy * mockupScaleY)
+      const { x: newX, y: newY } = snapDragPosition(
+        dragInitial.x + (dx * mockupScaleX),
+        dragInitial.y + (dy * mockupScaleY),
+        rect.width,
+        false
+      )
 
       // Update local state immediately for smooth rendering
       setCurrentTransform(prev => ({ ...prev, x: newX, y: newY }))
@@ -1229,6 +1361,7 @@ function EditModal({ mockupImage, design1Image, design2Image, design1Transform,
   const handleTouchEnd = () => {
     setIsDragging(false)
     setLastPinchDistance(null)
+    setSnapGuides([])
   }
 
   // Handle stretch handle dragging
@@ -1299,38 +1432,29 @@ function EditModal({ mockupImage, design1Image, design2Image, design1Transform,
         {/* Header with Layer Selector, Apply and Close buttons */}
         <div className="mb-4 flex items-center gap-4 bg-gray-800 px-6 py-3 rounded-lg w-full">
           {/* Layer Selector Buttons */}
-          <div className="flex gap-2">
-            {design1Image && (
-              <button
-                onClick={() => setActiveLayer('design1')}
-                className={`px-3 py-2 text-sm font-medium rounded transition ${
-                  activeLayer === 'design1'
-                    ? 'bg-green-600 text-white ring-2 ring-green-400'
-                    : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
-                }`}
-                title="Edit Design 1"
-              >
-                Design 1
-              </button>
-            )}
-            {design2Image && (
+          <div className="flex flex-wrap gap-2">
+            {layers.filter(layer => layer.image).map(layer => (
               <button
-                onClick={() => setActiveLayer('design2')}
+                key={layer.id}
+                onClick={() => setActiveLayerId(layer.id)}
                 className={`px-3 py-2 text-sm font-medium rounded transition ${
-                  activeLayer === 'design2'
-                    ? 'bg-orange-600 text-white ring-2 ring-orange-400'
+                  activeLayerId === layer.id
+                    ? getLayerColor(layer.order).activeClass
                     : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
                 }`}
-                title="Edit Design 2"
+                title={`Edit ${layer.name}`}
               >
-                Design 2
+                {layer.name}
               </button>
-            )}
+            ))}
           </div>
 
           <div className="text-sm text-gray-300 flex-1">
             X: {currentTransform.x.toFixed(0)} • Y: {currentTransform.y.toFixed(0)} • Scale: {currentTransform.scale.toFixed(2)}x •
             Rotation: {currentTransform.rotation}°
+            {getLayersOutsidePrintArea(layers.map(layer => ({ ...layer, transform: localTransforms[layer.id] ?? layer.transform })), printArea).length > 0 && (
+              <span className="text-yellow-400 ml-2">⚠ Outside print area</span>
+            )}
           </div>
           <button
             onClick={handleApply}
@@ -1462,6 +1586,65 @@ function EditModal({ mockupImage, design1Image, design2Image, design1Transform,
               Snaps at 0°, 90°, 180°, 270° (±2°)
             </p>
           </div>
+
+          {/* Warp Control */}
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="text-sm font-medium">Warp</label>
+              {currentTransform.warp && (
+                <button
+                  onClick={() => setCurrentTransform(prev => prev.warp
+                    ? { ...prev, warp: createWarp(prev.warp.mode, prev.warp.cols, prev.warp.rows) }
+                    : prev
+                  )}
+                  className="px-2 py-1 text-xs bg-gray-600 hover:bg-gray-500 rounded transition"
+                >
+                  Reset points
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {([null, 'perspective', 'mesh'] as (WarpMode | null)[]).map(mode => (
+                <button
+                  key={mode ?? 'none'}
+                  onClick={() => setWarpMode(mode)}
+                  className={`py-1 px-2 rounded text-xs transition ${
+                    (currentTransform.warp?.mode ?? null) === mode
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                  }`}
+                >
+                  {mode === null ? 'None' : mode === 'perspective' ? 'Perspective' : 'Mesh'}
+                </button>
+              ))}
+            </div>
+            {currentTransform.warp?.mode === 'mesh' && (
+              <div className="flex gap-2 items-center mt-2 text-sm">
+                <span className="text-gray-400">Grid:</span>
+                {(['cols', 'rows'] as const).map(axis => (
+                  <select
+                    key={axis}
+                    value={meshSize[axis]}
+                    onChange={(e) => {
+                      const size = { ...meshSize, [axis]: parseInt(e.target.value) }
+                      setMeshSize(size)
+                      setWarpMode('mesh', size)
+                    }}
+                    className="bg-gray-700 border border-gray-600 rounded px-2 py-1"
+                  >
+                    {Array.from({ length: MAX_MESH_SIZE - 1 }, (_, i) => i + 2).map(n => (
+                      <option key={n} value={n}>{n} {axis}</option>
+                    ))}
+                  </select>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-gray-400 mt-1">
+              {currentTransform.warp
+                ? 'Drag the white points to bend the design to this mockup'
+                : 'Perspective for angled shots • Mesh for curved surfaces'}
+            </p>
+          </div>
         </div>
 
         {/* Instructions */}
@@ -1477,28 +1660,190 @@ function EditModal({ mockupImage, design1Image, design2Image, design1Transform,
   )
 }
 
+// Drawable content of a layer: an uploaded image or rasterized text
+type LayerSource = HTMLImageElement | HTMLCanvasElement
+
 interface DesignState {
-  image: HTMLImageElement | null
+  id: string
+  name: string
+  image: LayerSource | null
+  text: TextStyle | null // Set for text layers; image holds the rasterized text
   transform: Transform
   blendMode: BlendMode
   visible: boolean
-  order: number // 0 = back, 1 = front
+  order: number // 0 = back, higher = front
+}
+
+// File entry returned by GET /files (metadata is null for files the server couldn't probe)
+interface ServerFile {
+  id: number
+  name: string
+  index: number
+  url: string
+  thumbnailUrl: string | null // Small WebP preview; null until the server has generated it
+  previewUrl: string | null // Medium WebP preview
+  printArea?: unknown
+  width: number | null
+  height: number | null
+  size: number | null // Bytes
+  mimeType: string | null
+  colourSpace: 'rgb' | 'grayscale' | 'indexed' | 'cmyk' | null
+  hasAlpha: boolean | null
+}
+
+// A saved file in the Load Mockup / Manager grids; the original is only downloaded when loaded
+interface ServerThumbnailFile extends ThumbnailFile {
+  serverFile: ServerFile
+}
+
+// Project documents: the scene saved by /api/projects. Mockups reference saved files by name
+// (indices change between sessions); design images are embedded as data URLs.
+const PROJECT_SCENE_VERSION = 1
+
+interface ProjectLayer extends Omit<DesignState, 'image'> {
+  image: string | null // Data URL; null for text layers (re-rasterized on load)
+}
+
+interface ProjectMockup {
+  fileName: string
+  hidden: boolean
+  colourways: string[]
+  offsets: LayerOverrides<{ x: number; y: number }>
+  customTransforms: LayerOverrides<Transform>
+  customBlendModes: LayerOverrides<BlendMode>
+  displacementMap: string | null
+  garmentMask: string | null
+}
+
+interface ProjectScene {
+  version: number
+  layers: ProjectLayer[]
+  activeLayerId: string | null
+  mockups: ProjectMockup[]
+  selectedMockupIndex: number
+  displacementStrength: number
+}
+
+// Encode an image or canvas as a data URL (images loaded from data URLs are reused as-is)
+const toDataUrl = (source: LayerSource): string => {
+  if (source instanceof HTMLImageElement && source.src.startsWith('data:')) return source.src
+  const canvas = document.createElement('canvas')
+  canvas.width = source.width
+  canvas.height = source.height
+  canvas.getContext('2d')?.drawImage(source, 0, 0)
+  return canvas.toDataURL('image/png')
 }
 
+const loadImageElement = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image()
+  img.onload = () => resolve(img)
+  img.onerror = () => reject(new Error('Failed to load image'))
+  img.src = url
+})
+
+// Design loaded for batch rendering; replaces the template layer's image in each render
+interface BatchDesign {
+  id: string
+  name: string
+  image: HTMLImageElement
+}
+
+// One mockup/colourway render in an export, written to one ZIP path per size preset
+interface ExportVariant {
+  index: number
+  colour: string | null
+  getImage?: (layer: DesignState) => LayerSource | null // Batch designs swap in their own image
+  paths: string[]
+}
+
+// Progress toast wording of an export ("Exporting 3 images...", "Exported 3 images")
+interface ExportMessages {
+  progress: string
+  done: string
+  cancelled: string
+  failed: string
+}
+
+// Per-mockup overrides for individual layers (layerId -> value)
+type LayerOverrides<T> = Record<string, T>
+
+// State restored by undo/redo: layer transforms and blend modes plus the per-mockup overrides
+interface EditSnapshot {
+  layers: Pick<DesignState, 'id' | 'transform' | 'blendMode'>[]
+  mockupOffsets: Map<number, LayerOverrides<{ x: number; y: number }>>
+  mockupCustomTransforms: Map<number, LayerOverrides<Transform>>
+  mockupCustomBlendModes: Map<number, LayerOverrides<BlendMode>>
+}
 
-const BLEND_MODES: GlobalCompositeOperation[] = [
-  'source-over',
-  'multiply',
-  'screen',
-  'overlay',
-  'darken',
-  'lighten',
-  'color-dodge',
-  'color-burn',
-  'hard-light',
-  'soft-light',
+// Highlight colours cycled through by layer position in the stack
+const LAYER_COLORS = [
+  { stroke: '#10b981', activeClass: 'bg-green-600 text-white ring-2 ring-green-400', textClass: 'text-green-400' },
+  { stroke: '#f97316', activeClass: 'bg-orange-600 text-white ring-2 ring-orange-400', textClass: 'text-orange-400' },
+  { stroke: '#3b82f6', activeClass: 'bg-blue-600 text-white ring-2 ring-blue-400', textClass: 'text-blue-400' },
+  { stroke: '#ec4899', activeClass: 'bg-pink-600 text-white ring-2 ring-pink-400', textClass: 'text-pink-400' },
+  { stroke: '#eab308', activeClass: 'bg-yellow-600 text-white ring-2 ring-yellow-400', textClass: 'text-yellow-400' },
+  { stroke: '#8b5cf6', activeClass: 'bg-violet-600 text-white ring-2 ring-violet-400', textClass: 'text-violet-400' },
 ]
 
+const getLayerColor = (order: number) => LAYER_COLORS[order % LAYER_COLORS.length]
+
+// Size of grid tiles and the interactive preview (long edge, px)
+const PREVIEW_SIZE = 400
+
+// Visible image layers as the compositor draws them, with each layer's own transform
+// (or one supplied by `getTransform`, e.g. a modal's unsaved edits)
+const toCompositeLayers = (
+  layers: DesignState[],
+  getTransform: (layer: DesignState) => Transform | undefined = layer => layer.transform
+): CompositeLayer[] => layers.flatMap(layer => {
+  const transform = getTransform(layer)
+  if (!layer.image || !layer.visible || !transform) return []
+  return [{ image: layer.image, placement: transform, opacity: transform.opacity, blendMode: layer.blendMode }]
+})
+
+// Visible image layers other than `layerId`, as snap targets
+const toSnapLayers = (
+  layers: DesignState[],
+  layerId: string,
+  getTransform: (layer: DesignState) => Transform | undefined = layer => layer.transform
+): SnapLayer[] => layers.flatMap(layer => {
+  const transform = getTransform(layer)
+  if (layer.id === layerId || !layer.image || !layer.visible || !transform) return []
+  return [{ placement: transform, width: layer.image.width, height: layer.image.height }]
+})
+
+// Visible layers that extend past the print area (using each layer's own transform)
+const getLayersOutsidePrintArea = (layers: DesignState[], printArea: PrintArea | null): DesignState[] => {
+  if (!printArea) return []
+  return layers.filter(layer =>
+    layer.image && layer.visible &&
+    exceedsPrintArea(printArea, layer.transform, layer.image.width, layer.image.height)
+  )
+}
+
+// Remove one layer's entry from every mockup's overrides, dropping mockups left without overrides
+const removeLayerOverrides = <T,>(map: Map<number, LayerOverrides<T>>, layerId: string): Map<number, LayerOverrides<T>> => {
+  const newMap = new Map<number, LayerOverrides<T>>()
+  map.forEach((overrides, mockupIndex) => {
+    const { [layerId]: _removed, ...rest } = overrides
+    if (Object.keys(rest).length > 0) {
+      newMap.set(mockupIndex, rest)
+    }
+  })
+  return newMap
+}
+
+// Shift per-mockup map keys down after removing the mockup at removedIndex
+const reindexAfterRemoval = <T,>(map: Map<number, T>, removedIndex: number): Map<number, T> => {
+  const newMap = new Map<number, T>()
+  map.forEach((value, key) => {
+    if (key < removedIndex) newMap.set(key, value)
+    else if (key > removedIndex) newMap.set(key - 1, value)
+  })
+  return newMap
+}
+
+
 type BlendMode = GlobalCompositeOperation
 
 interface MockupCanvasProps {
@@ -1510,45 +1855,49 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
   const toast = useToast()
   const [mockupImages, setMockupImages] = useState<HTMLImageElement[]>([])
   const [mockupFiles, setMockupFiles] = useState<ImageFile[]>([]) // Track file metadata with indices
-  const [modalFiles, setModalFiles] = useState<ImageFile[]>([]) // Server-only files for Show Mockup modal
+  const [modalFiles, setModalFiles] = useState<ServerThumbnailFile[]>([]) // Server-only files for Show Mockup modal
   const [deletedFileNames, setDeletedFileNames] = useState<string[]>([]) // Track files to delete on save
   const [hiddenMockupIndices, setHiddenMockupIndices] = useState<Set<number>>(new Set()) // Track hidden mockups (not deleted from memory)
   const [selectedMockupIndex, setSelectedMockupIndex] = useState<number>(0)
   const [mockupImage, setMockupImage] = useState<HTMLImageElement | null>(null)
   const [isSaving, setIsSaving] = useState(false) // Loading state for save operation
+  const [batchDesigns, setBatchDesigns] = useState<BatchDesign[]>([])
+  const [isBatchRendering, setIsBatchRendering] = useState(false)
   const [showMockupModal, setShowMockupModal] = useState(false) // Modal state for showing mockups
   const [showManagerModal, setShowManagerModal] = useState(false) // Modal state for managing database files
-  const [managerFiles, setManagerFiles] = useState<ImageFile[]>([]) // Files for Manager modal
-
-  // Design state
-  const [design1, setDesign1] = useState<DesignState>({
-    image: null,
-    transform: { x: 0, y: 0, scale: 1.0, scaleX: 1.0, scaleY: 1.0, rotation: 0, opacity: 100 },
-    blendMode: 'multiply',
-    visible: true,
-    order: 0,
-  })
+  const [managerFiles, setManagerFiles] = useState<ServerThumbnailFile[]>([]) // Files for Manager modal
+  const [showProjectsModal, setShowProjectsModal] = useState(false)
+  const [showApiKeysModal, setShowApiKeysModal] = useState(false)
+  const [currentProject, setCurrentProject] = useState<{ id: number; name: string } | null>(null)
+  const [isSavingProject, setIsSavingProject] = useState(false)
+  const [showExportModal, setShowExportModal] = useState(false)
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings)
+  const [printExportIndex, setPrintExportIndex] = useState<number | null>(null) // Mockup whose print file is being exported
+  const [isPrintExporting, setIsPrintExporting] = useState(false)
 
-  const [design2, setDesign2] = useState<DesignState>({
-    image: null,
-    transform: { x: 0, y: 0, scale: 1.0, scaleX: 1.0, scaleY: 1.0, rotation: 0, opacity: 100 },
-    blendMode: 'multiply',
-    visible: true,
-    order: 1,
-  })
+  // Design layer stack (sorted back to front, order === array index)
+  const [layers, setLayers] = useState<DesignState[]>([])
+
+  // Active layer selector for main controls panel
+  const [activeLayerId, setActiveLayerId] = useState<string | null>(null)
 
-  // Active design selector (1 or 2) for main controls panel
-  const [activeDesignNumber, setActiveDesignNumber] = useState<1 | 2>(1)
+  // Font families registered from user-uploaded font files
+  const [customFonts, setCustomFonts] = useState<string[]>([])
 
-  // Per-mockup position overrides (mockupIndex -> {x, y})
-  const [mockupOffsets, setMockupOffsets] = useState<Map<number, { x: number; y: number }>>(new Map())
+  // Per-mockup position overrides (mockupIndex -> layerId -> {x, y})
+  const [mockupOffsets, setMockupOffsets] = useState<Map<number, LayerOverrides<{ x: number; y: number }>>>(new Map())
 
-  // Per-mockup custom transforms (mockupIndex -> custom Transform)
-  const [mockupCustomTransforms1, setMockupCustomTransforms1] = useState<Map<number, Transform>>(new Map())
-  const [mockupCustomBlendModes1, setMockupCustomBlendModes1] = useState<Map<number, BlendMode>>(new Map())
+  // Per-mockup custom transforms (mockupIndex -> layerId -> custom Transform)
+  const [mockupCustomTransforms, setMockupCustomTransforms] = useState<Map<number, LayerOverrides<Transform>>>(new Map())
+  const [mockupCustomBlendModes, setMockupCustomBlendModes] = useState<Map<number, LayerOverrides<BlendMode>>>(new Map())
 
-  const [mockupCustomTransforms2, setMockupCustomTransforms2] = useState<Map<number, Transform>>(new Map())
-  const [mockupCustomBlendModes2, _setMockupCustomBlendModes2] = useState<Map<number, BlendMode>>(new Map())
+  // Fabric warping: strength in mockup px (0 = off) and uploaded maps per mockup (others use the mockup's luminance)
+  const [displacementStrength, setDisplacementStrength] = useState(0)
+  const [mockupDisplacementMaps, setMockupDisplacementMaps] = useState<Map<number, HTMLImageElement>>(new Map())
+
+  // Colourways: optional garment masks per mockup (colours live on mockupFiles) and the colour being added
+  const [mockupGarmentMasks, setMockupGarmentMasks] = useState<Map<number, HTMLImageElement>>(new Map())
+  const [newColourway, setNewColourway] = useState('#1f2937')
 
   // Edit mode state
   const [editMode, setEditMode] = useState<{ active: boolean; mockupIndex: number | null }>({ active: false, mockupIndex: null })
@@ -1556,13 +1905,14 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
   // Edit modal state (standalone modal, separate from edit mode)
   const [editModalOpen, setEditModalOpen] = useState(false)
   const [editModalMockupIndex, setEditModalMockupIndex] = useState<number | null>(null)
+  const [printAreaModalIndex, setPrintAreaModalIndex] = useState<number | null>(null)
 
   // Expanded Transform modal state (batch transform for all non-edited mockups)
   const [expandedTransformOpen, setExpandedTransformOpen] = useState(false)
 
-  // Canvas refresh counter to force re-render of preview tiles
-  const [canvasRefreshKey, setCanvasRefreshKey] = useState(0)
-  
+  // Rendered grid tiles, reused until a tile's inputs change
+  const tileCacheRef = useRef<TileCache>(createTileCache())
+
   // Reset trigger for ImageUploader
   const [imageUploaderResetTrigger, setImageUploaderResetTrigger] = useState(0)
 
@@ -1571,6 +1921,27 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
   const [dragStartPos, setDragStartPos] = useState({ x: 0, y: 0 })
   const [dragInitialPos, setDragInitialPos] = useState({ x: 0, y: 0 })
   const [dragMockupIndex, setDragMockupIndex] = useState<number | null>(null)
+  const [dragLayerId, setDragLayerId] = useState<string | null>(null)
+
+  // Scale/stretch/rotate handle drag on the selected tile, and the handle under the pointer
+  const [handleDrag, setHandleDrag] = useState<{
+    handle: TransformHandle
+    mockupIndex: number
+    layerId: string
+    start: { x: number; y: number } // Mockup px
+    placement: LayerPlacement // Effective transform and position when the drag began
+  } | null>(null)
+  const [hoveredHandle, setHoveredHandle] = useState<TransformHandle | null>(null)
+
+  // Snapping options and the guides shown while dragging on a tile
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(loadSnapSettings)
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([])
+
+  // Inspector unit, arrow-key nudge step and print width for inches
+  const [inspectorSettings, setInspectorSettings] = useState<InspectorSettings>(loadInspectorSettings)
+
+  // Undo/redo history of canvas edits
+  const [history, setHistory] = useState<History<EditSnapshot>>(createHistory)
 
 
   // Handle mockup images loaded from ImageUploader
@@ -1622,11 +1993,86 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
   }, [selectedMockupIndex, mockupImages])
 
 
+  // Download a saved file listed by GET /files and wrap it as an ImageFile
+  const fetchServerImageFile = async (serverFile: ServerFile): Promise<ImageFile | null> => {
+    try {
+      // Construct the URL for the file
+      const fileUrl = `${import.meta.env.VITE_API_BASE_URL || 'https://mockupai.supover.com'}${serverFile.url}`
+
+      // Fetch the file as a blob (uploads are only served to their owner)
+      const fileResponse = await authFetch(fileUrl)
+      if (!fileResponse.ok) {
+        console.error(`Failed to fetch file: ${serverFile.name}`)
+        return null
+      }
+
+      const blob = await fileResponse.blob()
+      const type = serverFile.mimeType || blob.type || 'image/png'
+      const file = new File([blob], serverFile.name, { type })
+
+      // Create object URL for preview
+      const objectUrl = URL.createObjectURL(blob)
+
+      // Extract file extension
+      const ext = serverFile.name.substring(serverFile.name.lastIndexOf('.')) || '.png'
+
+      return {
+        id: Math.random().toString(36).substring(2, 11),
+        url: objectUrl,
+        name: serverFile.name,
+        source: 'file',
+        file: file,
+        index: serverFile.index,
+        isFromDatabase: true,
+        size: blob.size,
+        type,
+        ext: ext,
+        printArea: parsePrintArea(serverFile.printArea)
+      }
+    } catch (error) {
+      console.error(`Error loading file ${serverFile.name}:`, error)
+      return null
+    }
+  }
+
+  // Download the thumbnail of a saved file (the original for files without one yet)
+  const fetchServerThumbnailFile = async (serverFile: ServerFile): Promise<ServerThumbnailFile | null> => {
+    try {
+      const fileUrl = `${import.meta.env.VITE_API_BASE_URL || 'https://mockupai.supover.com'}${serverFile.thumbnailUrl ?? serverFile.url}`
+      const fileResponse = await authFetch(fileUrl)
+      if (!fileResponse.ok) {
+        console.error(`Failed to fetch thumbnail: ${serverFile.name}`)
+        return null
+      }
+
+      return {
+        id: String(serverFile.id),
+        url: URL.createObjectURL(await fileResponse.blob()),
+        name: serverFile.name,
+        source: 'file',
+        isFromDatabase: true,
+        serverFile
+      }
+    } catch (error) {
+      console.error(`Error loading thumbnail ${serverFile.name}:`, error)
+      return null
+    }
+  }
+
+  const fetchServerThumbnailFiles = async (serverFiles: ServerFile[]): Promise<ServerThumbnailFile[]> => {
+    const thumbnails = await Promise.all(serverFiles.map(fetchServerThumbnailFile))
+    return thumbnails.filter((file): file is ServerThumbnailFile => file !== null)
+  }
+
+  // Thumbnails only live in the modals: free them whenever a list is replaced or cleared
+  useEffect(() => () => modalFiles.forEach(file => URL.revokeObjectURL(file.url)), [modalFiles])
+  useEffect(() => () => managerFiles.forEach(file => URL.revokeObjectURL(file.url)), [managerFiles])
+
   // Handle Show Mockup button click
   const handleShowMockup = async () => {
     try {
       // Fetch files from server
-      const response = await fetch(`${API_BASE}/files/${userId}`)
+      const response = await authFetch(`${API_BASE}/files`)
 
       if (!response.ok) {
         console.error('Failed to fetch files:', response.status)
@@ -1643,52 +2089,8 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
         return
       }
 
-      // Load images from server and create ImageFile objects
-      const loadedFiles: ImageFile[] = []
-
-      for (const serverFile of serverFiles) {
-        try {
-          // Construct the URL for the file
-          const fileUrl = `${import.meta.env.VITE_API_BASE_URL || 'https://mockupai.supover.com'}/uploads/${userId}/${serverFile.name}`
-
-          // Fetch the file as a blob
-          const fileResponse = await fetch(fileUrl)
-          if (!fileResponse.ok) {
-            console.error(`Failed to fetch file: ${serverFile.name}`)
-            continue
-          }
-
-          const blob = await fileResponse.blob()
-          const file = new File([blob], serverFile.name, { type: blob.type || 'image/png' })
-
-          // Create object URL for preview
-          const objectUrl = URL.createObjectURL(blob)
-
-          // Extract file extension
-          const ext = serverFile.name.substring(serverFile.name.lastIndexOf('.')) || '.png'
-
-          // Create ImageFile object
-          const imageFile: ImageFile = {
-            id: Math.random().toString(36).substring(2, 11),
-            url: objectUrl,
-            name: serverFile.name,
-            source: 'file',
-            file: file,
-            index: serverFile.index,
-            isFromDatabase: true,
-            size: blob.size,
-            type: blob.type || 'image/png',
-            ext: ext
-          }
-
-          loadedFiles.push(imageFile)
-        } catch (error) {
-          console.error(`Error loading file ${serverFile.name}:`, error)
-        }
-      }
-
-      // Store server files for modal display only (don't update main mockupFiles)
-      setModalFiles(loadedFiles)
+      // Store server thumbnails for modal display only (don't update main mockupFiles)
+      setModalFiles(await fetchServerThumbnailFiles(serverFiles))
 
       // Open the modal
       setShowMockupModal(true)
@@ -1702,7 +2104,7 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
   const handleManager = async () => {
     try {
       // Fetch files from server
-      const response = await fetch(`${API_BASE}/files/${userId}`)
+      const response = await authFetch(`${API_BASE}/files`)
 
       if (!response.ok) {
         console.error('Failed to fetch files:', response.status)
@@ -1719,52 +2121,8 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
         return
       }
 
-      // Load images from server and create ImageFile objects
-      const loadedFiles: ImageFile[] = []
-
-      for (const serverFile of serverFiles) {
-        try {
-          // Construct the URL for the file
-          const fileUrl = `${import.meta.env.VITE_API_BASE_URL || 'https://mockupai.supover.com'}/uploads/${userId}/${serverFile.name}`
-
-          // Fetch the file as a blob
-          const fileResponse = await fetch(fileUrl)
-          if (!fileResponse.ok) {
-            console.error(`Failed to fetch file: ${serverFile.name}`)
-            continue
-          }
-
-          const blob = await fileResponse.blob()
-          const file = new File([blob], serverFile.name, { type: blob.type || 'image/png' })
-
-          // Create object URL for preview
-          const objectUrl = URL.createObjectURL(blob)
-
-          // Extract file extension
-          const ext = serverFile.name.substring(serverFile.name.lastIndexOf('.')) || '.png'
-
-          // Create ImageFile object
-          const imageFile: ImageFile = {
-            id: Math.random().toString(36).substring(2, 11),
-            url: objectUrl,
-            name: serverFile.name,
-            source: 'file',
-            file: file,
-            index: serverFile.index,
-            isFromDatabase: true,
-            size: blob.size,
-            type: blob.type || 'image/png',
-            ext: ext
-          }
-
-          loadedFiles.push(imageFile)
-        } catch (error) {
-          console.error(`Error loading file ${serverFile.name}:`, error)
-        }
-      }
-
-      // Store files for manager modal
-      setManagerFiles(loadedFiles)
+      // Store thumbnails for manager modal
+      setManagerFiles(await fetchServerThumbnailFiles(serverFiles))
       setShowManagerModal(true)
     } catch (error) {
       console.error('Error loading files:', error)
@@ -1775,201 +2133,595 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
   // Handle manager modal close
   const handleManagerClose = () => {
     setShowManagerModal(false)
+    setManagerFiles([])
   }
 
   // Handle manager modal file deletion
   const handleManagerDeleted = () => {
     toast.success('Files deleted from database')
     setShowManagerModal(false)
+    setManagerFiles([])
   }
 
   // Handle modal close
   const handleModalClose = () => {
     setShowMockupModal(false)
+    setModalFiles([])
   }
 
   // Handle modal Apply button (Load Mockups - does NOT delete from database)
-  const handleModalNext = async (remainingFiles: ImageFile[]) => {
+  const handleModalNext = async (remainingFiles: ServerThumbnailFile[]) => {
     // User selected which files to load into interface (files removed in modal are NOT deleted from database)
+    setShowMockupModal(false)
+    setModalFiles([])
+    if (remainingFiles.length === 0) {
+      setMockupFiles([])
+      setMockupImages([])
+      setHiddenMockupIndices(new Set())
+      setSelectedMockupIndex(0)
+      setMockupImage(null)
+      return
+    }
 
-    // Separate remaining files into saved files and newly uploaded files
-      const remainingDbFiles = remainingFiles.filter(f => !!f.isFromDatabase)
-      const remainingStagedFiles = remainingFiles.filter(f => !f.isFromDatabase)
+    const loadingToastId = toast.loading(`Loading ${remainingFiles.length} mockup(s)...`)
 
-    // Load remaining database files into the interface
+    // Download the originals of the selected files only
+    const downloadedFiles = await Promise.all(remainingFiles.map(file => fetchServerImageFile(file.serverFile)))
+    const loadedFiles: ImageFile[] = []
     const loadedImages: HTMLImageElement[] = []
 
-    for (const file of remainingDbFiles) {
+    for (const file of downloadedFiles) {
+      if (!file) continue
       try {
-        const img = new Image()
-        await new Promise<void>((resolve, reject) => {
-          img.onload = () => resolve()
-          img.onerror = () => reject(new Error('Failed to load image'))
-          img.src = file.url
-        })
-        loadedImages.push(img)
+        loadedImages.push(await loadImageElement(file.url))
+        loadedFiles.push(file)
       } catch (error) {
         console.error(`Failed to load image: ${file.name}`, error)
+        URL.revokeObjectURL(file.url)
       }
     }
 
-    // Get images for remaining staged files (newly uploaded files that weren't deleted)
-    const remainingStagedIds = new Set(remainingStagedFiles.map(f => f.id))
-    const stagedImages: HTMLImageElement[] = []
-
-    mockupFiles.forEach((file, i) => {
-      if (!file.isFromDatabase && remainingStagedIds.has(file.id)) {
-        stagedImages.push(mockupImages[i])
-      }
-    })
+    toast.dismissToast(loadingToastId)
+    const failedCount = remainingFiles.length - loadedFiles.length
+    if (failedCount > 0) {
+      toast.error(`Failed to load ${failedCount} mockup(s)`)
+    }
 
-    // Update interface with remaining database files + remaining staged files
-    setMockupFiles([...remainingDbFiles, ...remainingStagedFiles])
-    setMockupImages([...loadedImages, ...stagedImages])
+    // Update interface with the loaded database files
+    setMockupFiles(loadedFiles)
+    setMockupImages(loadedImages)
 
     // Clear hidden indices since we're rebuilding the arrays
     setHiddenMockupIndices(new Set())
 
-    // Update selected index to first remaining file if any
-    const totalRemainingImages = loadedImages.length + stagedImages.length
-    if (totalRemainingImages > 0) {
-      setSelectedMockupIndex(0)
-      setMockupImage(loadedImages.length > 0 ? loadedImages[0] : stagedImages[0])
-    } else {
-      setSelectedMockupIndex(0)
-      setMockupImage(null)
-    }
+    // Select the first loaded file if any
+    setSelectedMockupIndex(0)
+    setMockupImage(loadedImages.length > 0 ? loadedImages[0] : null)
+  }
 
-    // Close modal
-    setShowMockupModal(false)
+  // Snapshot of the whole scene for a project document (only mockups saved to the server are included)
+  const serializeScene = (): ProjectScene => {
+    const mockups: ProjectMockup[] = []
+    let selectedIndex = 0
+
+    mockupFiles.forEach((file, index) => {
+      if (!file.isFromDatabase) return
+      if (index === selectedMockupIndex) selectedIndex = mockups.length
+
+      const displacementMap = mockupDisplacementMaps.get(index)
+      const garmentMask = mockupGarmentMasks.get(index)
+      mockups.push({
+        fileName: file.name,
+        hidden: hiddenMockupIndices.has(index),
+        colourways: file.colourways ?? [],
+        offsets: mockupOffsets.get(index) ?? {},
+        customTransforms: mockupCustomTransforms.get(index) ?? {},
+        customBlendModes: mockupCustomBlendModes.get(index) ?? {},
+        displacementMap: displacementMap ? toDataUrl(displacementMap) : null,
+        garmentMask: garmentMask ? toDataUrl(garmentMask) : null
+      })
+    })
+
+    return {
+      version: PROJECT_SCENE_VERSION,
+      layers: layers.map(layer => ({
+        ...layer,
+        image: layer.image && !layer.text ? toDataUrl(layer.image) : null
+      })),
+      activeLayerId,
+      mockups,
+      selectedMockupIndex: selectedIndex,
+      displacementStrength
+    }
   }
 
-  // Load design 1 image
-  const handleDesign1Upload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) {
-      const reader = new FileReader()
-      reader.onload = (event) => {
-        const img = new Image()
-        img.onload = () => {
-          // Center the design on canvas if mockup is available
-          if (mockupImage) {
-            // Auto-scale design to fit nicely on mockup (about 30% of mockup size)
-            const autoScale = Math.min(mockupImage.width, mockupImage.height) * 0.3 / Math.max(img.width, img.height)
+  // Save the scene to the open project, or to a new one (first save / Save As)
+  const handleSaveProject = async (saveAs = false) => {
+    let name = currentProject?.name
+    if (!currentProject || saveAs) {
+      const input = prompt('Project name', currentProject ? `${currentProject.name} (copy)` : 'Untitled project')
+      if (!input?.trim()) return
+      name = input.trim()
+    }
 
-            setDesign1(prev => ({
-              ...prev,
-              image: img,
-              transform: {
-                ...prev.transform,
-                x: mockupImage.width / 2,
-                y: mockupImage.height / 2,
-                scale: Math.max(0.1, Math.min(1.5, autoScale)), // Clamp between 0.1 and 1.5
-                scaleX: 1.0,
-                scaleY: 1.0,
-              }
-            }))
-          } else {
-            setDesign1(prev => ({ ...prev, image: img }))
-          }
+    setIsSavingProject(true)
+    try {
+      const scene = serializeScene()
+      const response = currentProject && !saveAs
+        ? await authFetch(`${API_BASE}/projects/${currentProject.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name, scene })
+        })
+        : await authFetch(`${API_BASE}/projects`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name, scene })
+        })
+
+      if (!response.ok) {
+        throw new Error(`Failed to save project: ${response.statusText}`)
+      }
+
+      const saved: ProjectSummary = await response.json()
+      setCurrentProject({ id: saved.id, name: saved.name })
+
+      const unsavedCount = mockupFiles.filter(f => !f.isFromDatabase).length
+      if (unsavedCount > 0) {
+        toast.info(`Project "${saved.name}" saved without ${unsavedCount} unsaved mockup(s) - use Save Changes to upload them first`)
+      } else {
+        toast.success(`Project "${saved.name}" saved`)
+      }
+    } catch (error) {
+      console.error('Error saving project:', error)
+      toast.error('Failed to save project')
+    } finally {
+      setIsSavingProject(false)
+    }
+  }
+
+  // Replace the workspace with a saved project
+  const openProject = async (project: ProjectSummary) => {
+    if ((mockupFiles.length > 0 || layers.length > 0) &&
+      !confirm(`Open "${project.name}"? Unsaved changes in the current workspace will be lost.`)) {
+      return
+    }
+
+    setShowProjectsModal(false)
+    const loadingToastId = toast.loading(`Opening "${project.name}"...`)
+
+    try {
+      const response = await authFetch(`${API_BASE}/projects/${project.id}`)
+      if (!response.ok) {
+        throw new Error(`Failed to load project: ${response.status}`)
+      }
+      const { scene } = await response.json() as { scene: ProjectScene }
+
+      const filesResponse = await authFetch(`${API_BASE}/files`)
+      if (!filesResponse.ok) {
+        throw new Error(`Failed to load files: ${filesResponse.status}`)
+      }
+      const serverFiles: ServerFile[] = await filesResponse.json()
+      const serverFilesByName = new Map(serverFiles.map(file => [file.name, file]))
+
+      // Mockups still on the server, in project order
+      const files: ImageFile[] = []
+      const images: HTMLImageElement[] = []
+      const mockups: ProjectMockup[] = []
+      let missingCount = 0
+      let selectedIndex = 0
+
+      for (const [sceneIndex, mockup] of scene.mockups.entries()) {
+        const serverFile = serverFilesByName.get(mockup.fileName)
+        const imageFile = serverFile ? await fetchServerImageFile(serverFile) : null
+        if (!imageFile) {
+          missingCount++
+          continue
         }
-        img.src = event.target?.result as string
+
+        try {
+          images.push(await loadImageElement(imageFile.url))
+        } catch (error) {
+          console.error(`Failed to load image: ${imageFile.name}`, error)
+          URL.revokeObjectURL(imageFile.url)
+          missingCount++
+          continue
+        }
+
+        if (sceneIndex === scene.selectedMockupIndex) selectedIndex = files.length
+        files.push({ ...imageFile, colourways: mockup.colourways })
+        mockups.push(mockup)
       }
-      reader.readAsDataURL(file)
+
+      // Per-mockup state keyed by the new indices
+      const offsets = new Map<number, LayerOverrides<{ x: number; y: number }>>()
+      const customTransforms = new Map<number, LayerOverrides<Transform>>()
+      const customBlendModes = new Map<number, LayerOverrides<BlendMode>>()
+      const displacementMaps = new Map<number, HTMLImageElement>()
+      const garmentMasks = new Map<number, HTMLImageElement>()
+      const hidden = new Set<number>()
+
+      for (const [index, mockup] of mockups.entries()) {
+        if (Object.keys(mockup.offsets).length > 0) offsets.set(index, mockup.offsets)
+        if (Object.keys(mockup.customTransforms).length > 0) customTransforms.set(index, mockup.customTransforms)
+        if (Object.keys(mockup.customBlendModes).length > 0) customBlendModes.set(index, mockup.customBlendModes)
+        if (mockup.displacementMap) displacementMaps.set(index, await loadImageElement(mockup.displacementMap))
+        if (mockup.garmentMask) garmentMasks.set(index, await loadImageElement(mockup.garmentMask))
+        if (mockup.hidden) hidden.add(index)
+      }
+
+      // Layers: decode images, re-rasterize text with its font
+      const loadedLayers: DesignState[] = await Promise.all(scene.layers.map(async layer => {
+        if (layer.text) {
+          await loadTextFont(layer.text)
+          return { ...layer, image: renderTextLayer(layer.text) }
+        }
+        return { ...layer, image: layer.image ? await loadImageElement(layer.image) : null }
+      }))
+
+      cleanupNewFiles(mockupFiles)
+      setMockupFiles(files)
+      setMockupImages(images)
+      setHiddenMockupIndices(hidden)
+      setDeletedFileNames([])
+      setMockupOffsets(offsets)
+      setMockupCustomTransforms(customTransforms)
+      setMockupCustomBlendModes(customBlendModes)
+      setHistory(createHistory())
+      setMockupDisplacementMaps(displacementMaps)
+      setMockupGarmentMasks(garmentMasks)
+      setDisplacementStrength(scene.displacementStrength)
+      setLayers(loadedLayers)
+      setActiveLayerId(loadedLayers.some(layer => layer.id === scene.activeLayerId) ? scene.activeLayerId : loadedLayers[0]?.id ?? null)
+      setEditMode({ active: false, mockupIndex: null })
+      setSelectedMockupIndex(selectedIndex)
+      setMockupImage(images[selectedIndex] ?? null)
+      setCurrentProject({ id: project.id, name: project.name })
+
+      toast.dismissToast(loadingToastId)
+      if (missingCount > 0) {
+        toast.error(`Opened "${project.name}" - ${missingCount} mockup file(s) no longer exist and were skipped`)
+      } else {
+        toast.success(`Opened "${project.name}"`)
+      }
+    } catch (error) {
+      console.error('Error opening project:', error)
+      toast.dismissToast(loadingToastId)
+      toast.error('Failed to open project')
     }
   }
 
-  // Load design 2 image
-  const handleDesign2Upload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) {
+  // Load design images - each selected file becomes a new layer on top of the stack
+  const handleLayerUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    files.forEach(file => {
       const reader = new FileReader()
       reader.onload = (event) => {
         const img = new Image()
         img.onload = () => {
+          const id = Math.random().toString(36).substring(2, 11)
+          const name = getBaseName(file.name)
+          let transform: Transform = { ...DEFAULT_TRANSFORM }
+
           // Center the design on canvas if mockup is available
           if (mockupImage) {
             // Auto-scale design to fit nicely on mockup (about 30% of mockup size)
             const autoScale = Math.min(mockupImage.width, mockupImage.height) * 0.3 / Math.max(img.width, img.height)
 
-            setDesign2(prev => ({
-              ...prev,
-              image: img,
-              transform: {
-                ...prev.transform,
-                x: mockupImage.width / 2,
-                y: mockupImage.height / 2,
-                scale: Math.max(0.1, Math.min(1.5, autoScale)), // Clamp between 0.1 and 1.5
-                scaleX: 1.0,
-                scaleY: 1.0,
-              }
-            }))
-          } else {
-            setDesign2(prev => ({ ...prev, image: img }))
+            transform = {
+              ...transform,
+              x: mockupImage.width / 2,
+              y: mockupImage.height / 2,
+              scale: Math.max(0.1, Math.min(1.5, autoScale)), // Clamp between 0.1 and 1.5
+            }
           }
+
+          setLayers(prev => [
+            ...prev,
+            { id, name, image: img, text: null, transform, blendMode: 'multiply', visible: true, order: prev.length }
+          ])
+          setActiveLayerId(id)
         }
         img.src = event.target?.result as string
       }
       reader.readAsDataURL(file)
+    })
+    // Reset input so the same file can be added again as another layer
+    e.target.value = ''
+  }
+
+  // Add a text layer centered on the current mockup
+  const addTextLayer = () => {
+    const id = Math.random().toString(36).substring(2, 11)
+    const style: TextStyle = { ...DEFAULT_TEXT_STYLE }
+    const transform: Transform = mockupImage
+      ? { ...DEFAULT_TRANSFORM, x: mockupImage.width / 2, y: mockupImage.height / 2 }
+      : { ...DEFAULT_TRANSFORM }
+
+    setLayers(prev => [
+      ...prev,
+      { id, name: getTextLayerName(style), image: renderTextLayer(style), text: style, transform, blendMode: 'source-over', visible: true, order: prev.length }
+    ])
+    setActiveLayerId(id)
+  }
+
+  // Update a text layer's style and re-rasterize it
+  const updateTextLayer = (layerId: string, updates: Partial<TextStyle>) => {
+    const layer = layers.find(l => l.id === layerId)
+    if (!layer?.text) return
+
+    const style: TextStyle = { ...layer.text, ...updates }
+    setLayers(prev => prev.map(l =>
+      l.id === layerId ? { ...l, name: getTextLayerName(style), text: style, image: renderTextLayer(style) } : l
+    ))
+
+    // Web fonts load asynchronously - rasterize again once the real font is available
+    if (!isTextFontLoaded(style)) {
+      loadTextFont(style).then(() => {
+        setLayers(prev => prev.map(l => l.id === layerId && l.text === style ? { ...l, image: renderTextLayer(style) } : l))
+      })
     }
   }
 
-  // Get effective transform for a design on a specific mockup (considers custom overrides)
-  const getEffectiveTransform = (mockupIndex: number, designNum: 1 | 2 = activeDesignNumber): Transform => {
-    const customTransforms = designNum === 1 ? mockupCustomTransforms1 : mockupCustomTransforms2
-    const design = designNum === 1 ? design1 : design2
+  // Register an uploaded font file and apply it to the active text layer
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const family = await loadFontFile(file)
+      setCustomFonts(prev => prev.includes(family) ? prev : [...prev, family])
+      if (activeLayerId) {
+        updateTextLayer(activeLayerId, { fontFamily: family })
+      }
+      toast.success(`Font "${family}" loaded`)
+    } catch (error) {
+      console.error('Error loading font:', error)
+      toast.error('Failed to load font file')
+    }
+  }
+
+  // Remove a layer and every per-mockup override that references it
+  const removeLayer = (layerId: string) => {
+    const remaining = layers
+      .filter(layer => layer.id !== layerId)
+      .map((layer, index) => ({ ...layer, order: index }))
+
+    setLayers(remaining)
+    setMockupOffsets(prev => removeLayerOverrides(prev, layerId))
+    setMockupCustomTransforms(prev => removeLayerOverrides(prev, layerId))
+    setMockupCustomBlendModes(prev => removeLayerOverrides(prev, layerId))
+
+    if (activeLayerId === layerId) {
+      setActiveLayerId(remaining.length > 0 ? remaining[remaining.length - 1].id : null)
+    }
+  }
+
+  // Move a layer one step towards the front (1) or back (-1) of the stack
+  const moveLayer = (layerId: string, direction: 1 | -1) => {
+    const index = layers.findIndex(layer => layer.id === layerId)
+    const targetIndex = index + direction
+    if (index === -1 || targetIndex < 0 || targetIndex >= layers.length) return
+
+    const reordered = [...layers]
+    ;[reordered[index], reordered[targetIndex]] = [reordered[targetIndex], reordered[index]]
+    setLayers(reordered.map((layer, i) => ({ ...layer, order: i })))
+  }
+
+  // Show or hide a layer on every mockup
+  const toggleLayerVisibility = (layerId: string) => {
+    setLayers(prev => prev.map(layer => layer.id === layerId ? { ...layer, visible: !layer.visible } : layer))
+  }
+
+  // Get effective transform for a layer on a specific mockup (considers custom overrides)
+  const getEffectiveTransform = (mockupIndex: number, layerId: string | null = activeLayerId): Transform => {
+    const layer = layers.find(l => l.id === layerId)
+    if (!layer) return DEFAULT_TRANSFORM
 
     // Check if this mockup has custom transforms
-    const customTransform = customTransforms.get(mockupIndex)
+    const customTransform = mockupCustomTransforms.get(mockupIndex)?.[layer.id]
     if (customTransform) {
       return customTransform
     }
 
     // Otherwise use global transform
-    return design.transform
+    return layer.transform
   }
 
-  // Get effective blend mode for a design on a specific mockup
-  const getEffectiveBlendMode = (mockupIndex: number, designNum: 1 | 2 = activeDesignNumber): BlendMode => {
-    const customBlendModes = designNum === 1 ? mockupCustomBlendModes1 : mockupCustomBlendModes2
-    const design = designNum === 1 ? design1 : design2
+  // Get effective blend mode for a layer on a specific mockup
+  const getEffectiveBlendMode = (mockupIndex: number, layerId: string | null = activeLayerId): BlendMode => {
+    const layer = layers.find(l => l.id === layerId)
+    if (!layer) return 'multiply'
 
-    const customBlendMode = customBlendModes.get(mockupIndex)
+    const customBlendMode = mockupCustomBlendModes.get(mockupIndex)?.[layer.id]
     if (customBlendMode) {
       return customBlendMode
     }
 
-    return design.blendMode
+    return layer.blendMode
+  }
+
+  // Resolve the whole layer stack for one mockup (effective transforms, drag offsets and blend modes)
+  const getEffectiveLayers = (mockupIndex: number): DesignState[] => {
+    return layers.map(layer => ({
+      ...layer,
+      transform: { ...getEffectiveTransform(mockupIndex, layer.id), ...getEffectivePosition(mockupIndex, layer.id) },
+      blendMode: getEffectiveBlendMode(mockupIndex, layer.id),
+    }))
+  }
+
+  // Displacement map used to warp designs on a mockup (null when warping is off)
+  const getMockupDisplacementMap = (mockupIndex: number): DisplacementMap | null => {
+    if (displacementStrength <= 0) return null
+    const source = mockupDisplacementMaps.get(mockupIndex) ?? mockupImages[mockupIndex]
+    return source ? getDisplacementMap(source) : null
+  }
+
+  // Upload a grayscale displacement map for the selected mockup
+  const handleDisplacementMapUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const mockupIndex = selectedMockupIndex
+    const reader = new FileReader()
+    reader.onload = (event) => {
+      const img = new Image()
+      img.onload = () => {
+        setMockupDisplacementMaps(prev => new Map(prev).set(mockupIndex, img))
+        toast.success(`Displacement map set for Mockup ${mockupIndex + 1}`)
+      }
+      img.onerror = () => toast.error('Failed to load displacement map')
+      img.src = event.target?.result as string
+    }
+    reader.readAsDataURL(file)
+  }
+
+  // Go back to deriving the selected mockup's map from its own luminance
+  const clearDisplacementMap = () => {
+    setMockupDisplacementMaps(prev => {
+      const newMap = new Map(prev)
+      newMap.delete(selectedMockupIndex)
+      return newMap
+    })
+  }
+
+  // Mockup photo for a colourway (null = original), recoloured inside the garment mask if one is set
+  const getMockupBackground = (mockupIndex: number, colour: string | null): ImageSourceWithSize => {
+    const mockupImg = mockupImages[mockupIndex]
+    if (!colour) return mockupImg
+    return recolourMockup(mockupImg, colour, mockupGarmentMasks.get(mockupIndex) ?? null)
+  }
+
+  // Add a colourway to the selected mockup
+  const addColourway = () => {
+    const colour = normalizeHexColour(newColourway)
+    if (!colour) {
+      toast.error('Enter a hex colour like #1f2937')
+      return
+    }
+    if (mockupFiles[selectedMockupIndex]?.colourways?.includes(colour)) return
+
+    setMockupFiles(prev => prev.map((f, i) =>
+      i === selectedMockupIndex ? { ...f, colourways: [...(f.colourways ?? []), colour] } : f
+    ))
+  }
+
+  const removeColourway = (colour: string) => {
+    setMockupFiles(prev => prev.map((f, i) =>
+      i === selectedMockupIndex ? { ...f, colourways: (f.colourways ?? []).filter(c => c !== colour) } : f
+    ))
+  }
+
+  // Upload a garment mask (white = garment) for the selected mockup
+  const handleGarmentMaskUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const mockupIndex = selectedMockupIndex
+    const reader = new FileReader()
+    reader.onload = (event) => {
+      const img = new Image()
+      img.onload = () => {
+        setMockupGarmentMasks(prev => new Map(prev).set(mockupIndex, img))
+        toast.success(`Garment mask set for Mockup ${mockupIndex + 1}`)
+      }
+      img.onerror = () => toast.error('Failed to load garment mask')
+      img.src = event.target?.result as string
+    }
+    reader.readAsDataURL(file)
+  }
+
+  const clearGarmentMask = () => {
+    setMockupGarmentMasks(prev => {
+      const newMap = new Map(prev)
+      newMap.delete(selectedMockupIndex)
+      return newMap
+    })
   }
 
-  // Helper function to draw a design with per-mockup offsets and custom transforms
-  const drawDesign = (
-    ctx: CanvasRenderingContext2D,
+  // A layer as drawn on a mockup, with per-mockup offsets and custom transforms (null if hidden or empty)
+  // A different image (batch rendering) is fitted into the same box as the layer's own image
+  const getCompositeLayer = (
     mockupIndex: number,
-    designNum: 1 | 2
-  ) => {
-    const design = designNum === 1 ? design1 : design2
-
-    if (!design.image || !design.visible) return
-
-    const pos = getEffectivePosition(mockupIndex, designNum)
-    const transform = getEffectiveTransform(mockupIndex, designNum)
-    const blendMode = getEffectiveBlendMode(mockupIndex, designNum)
-
-    ctx.save()
-    ctx.globalCompositeOperation = blendMode
-    ctx.globalAlpha = transform.opacity / 100
-    ctx.translate(pos.x, pos.y)
-    ctx.rotate((transform.rotation * Math.PI) / 180)
-    ctx.scale(transform.scale * transform.scaleX, transform.scale * transform.scaleY)
-    ctx.drawImage(
-      design.image,
-      -design.image.width / 2,
-      -design.image.height / 2
-    )
-    ctx.restore()
+    layer: DesignState,
+    image: LayerSource | null = layer.image
+  ): CompositeLayer | null => {
+    if (!layer.image || !image || !layer.visible) return null
+
+    const pos = getEffectivePosition(mockupIndex, layer.id)
+    const effectiveTransform = getEffectiveTransform(mockupIndex, layer.id)
+    const fit = Math.max(layer.image.width, layer.image.height) / Math.max(image.width, image.height)
+    const transform = { ...effectiveTransform, scale: effectiveTransform.scale * fit }
+    return {
+      image,
+      placement: { ...transform, ...pos },
+      opacity: transform.opacity,
+      blendMode: getEffectiveBlendMode(mockupIndex, layer.id)
+    }
+  }
+
+  // Scene for one mockup (or colourway): the photo and every visible layer as placed on it.
+  // `getImage` swaps layer images, e.g. the template layer's design in batch rendering.
+  const getMockupScene = (
+    mockupIndex: number,
+    colour: string | null,
+    getImage: (layer: DesignState) => LayerSource | null = layer => layer.image
+  ): CompositeScene => ({
+    background: getMockupBackground(mockupIndex, colour),
+    layers: layers.flatMap(layer => getCompositeLayer(mockupIndex, layer, getImage(layer)) ?? []),
+    printArea: mockupFiles[mockupIndex]?.printArea ?? null,
+    displacementMap: getMockupDisplacementMap(mockupIndex),
+    displacementStrength
+  })
+
+  // Cache key of a grid tile: everything its render depends on (images by identity)
+  const getTileKey = (mockupIndex: number, colour: string | null, width: number, height: number): string => JSON.stringify([
+    width,
+    height,
+    getObjectId(mockupImages[mockupIndex]),
+    colour,
+    colour ? getObjectId(mockupGarmentMasks.get(mockupIndex)) : 0,
+    layers.flatMap(layer => {
+      const compositeLayer = getCompositeLayer(mockupIndex, layer)
+      return compositeLayer
+        ? [[getObjectId(compositeLayer.image), compositeLayer.placement, compositeLayer.opacity, compositeLayer.blendMode]]
+        : []
+    }),
+    mockupFiles[mockupIndex]?.printArea ?? null,
+    displacementStrength,
+    displacementStrength > 0 ? getObjectId(mockupDisplacementMaps.get(mockupIndex) ?? mockupImages[mockupIndex]) : 0
+  ])
+
+  // Grid tile bitmap from the cache, rendered on a miss
+  const getTileBitmap = (
+    tileId: string,
+    tileKey: string,
+    mockupIndex: number,
+    colour: string | null,
+    width: number,
+    height: number
+  ): TileBitmap | null => {
+    const cached = tileCacheRef.current.get(tileId, tileKey)
+    if (cached) return cached
+
+    const bitmap = renderTileBitmap(getMockupScene(mockupIndex, colour), width, height)
+    if (bitmap) tileCacheRef.current.set(tileId, tileKey, bitmap)
+    return bitmap
   }
 
+  // Free tiles of deleted or hidden mockups and removed colourways
+  useEffect(() => {
+    const tileIds = new Set(mockupImages.flatMap((_, index) => {
+      if (hiddenMockupIndices.has(index)) return []
+      const colourways = mockupFiles[index]?.colourways ?? []
+      return (colourways.length > 0 ? colourways : [null]).map(colour => `${index}-${colour ?? 'base'}`)
+    }))
+    tileCacheRef.current.prune(tileIds)
+  }, [mockupImages, mockupFiles, hiddenMockupIndices])
+
   // Cleanup function to revoke all object URLs for new files
   const cleanupNewFiles = (files: ImageFile[]) => {
     files.forEach(file => {
@@ -1997,35 +2749,11 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
       const newMockupImages = mockupImages.filter((_, i) => i !== index)
 
       // Rebuild all Maps with shifted indices
-      const newOffsets = new Map<number, { x: number; y: number }>()
-      mockupOffsets.forEach((value, key) => {
-        if (key < index) newOffsets.set(key, value)
-        else if (key > index) newOffsets.set(key - 1, value)
-      })
-
-      const newTransforms1 = new Map<number, Transform>()
-      mockupCustomTransforms1.forEach((value, key) => {
-        if (key < index) newTransforms1.set(key, value)
-        else if (key > index) newTransforms1.set(key - 1, value)
-      })
-
-      const newBlendModes1 = new Map<number, GlobalCompositeOperation>()
-      mockupCustomBlendModes1.forEach((value, key) => {
-        if (key < index) newBlendModes1.set(key, value)
-        else if (key > index) newBlendModes1.set(key - 1, value)
-      })
-
-      const newTransforms2 = new Map<number, Transform>()
-      mockupCustomTransforms2.forEach((value, key) => {
-        if (key < index) newTransforms2.set(key, value)
-        else if (key > index) newTransforms2.set(key - 1, value)
-      })
-
-      const newBlendModes2 = new Map<number, GlobalCompositeOperation>()
-      mockupCustomBlendModes2.forEach((value, key) => {
-        if (key < index) newBlendModes2.set(key, value)
-        else if (key > index) newBlendModes2.set(key - 1, value)
-      })
+      const newOffsets = reindexAfterRemoval(mockupOffsets, index)
+      const newTransforms = reindexAfterRemoval(mockupCustomTransforms, index)
+      const newBlendModes = reindexAfterRemoval(mockupCustomBlendModes, index)
+      const newDisplacementMaps = reindexAfterRemoval(mockupDisplacementMaps, index)
+      const newGarmentMasks = reindexAfterRemoval(mockupGarmentMasks, index)
 
       // Update hidden indices
       const newHiddenIndices = new Set<number>()
@@ -2038,10 +2766,11 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
       setMockupFiles(newMockupFiles)
       setMockupImages(newMockupImages)
       setMockupOffsets(newOffsets)
-      setMockupCustomTransforms1(newTransforms1)
-      setMockupCustomBlendModes1(newBlendModes1)
-      setMockupCustomTransforms2(newTransforms2)
-      _setMockupCustomBlendModes2(newBlendModes2)
+      setMockupCustomTransforms(newTransforms)
+      setMockupCustomBlendModes(newBlendModes)
+      setHistory(createHistory()) // Snapshots refer to the old mockup indices
+      setMockupDisplacementMaps(newDisplacementMaps)
+      setMockupGarmentMasks(newGarmentMasks)
       setHiddenMockupIndices(newHiddenIndices)
 
       // Exit edit mode if editing this mockup
@@ -2093,7 +2822,37 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
       }
     }
 
-    setCanvasRefreshKey(prev => prev + 1)
+  }
+
+  // Set or clear the print area of a mockup (saved files are updated on the server right away)
+  const updatePrintArea = async (mockupIndex: number, printArea: PrintArea | null) => {
+    const file = mockupFiles[mockupIndex]
+    if (!file) return
+
+    setMockupFiles(prev => prev.map((f, i) => (i === mockupIndex ? { ...f, printArea } : f)))
+
+    // New files send their print area with the upload in handleSave
+    if (!file.isFromDatabase) return
+
+    try {
+      const response = await authFetch(
+        `${API_BASE}/files/${encodeURIComponent(file.name)}/print-area`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ printArea })
+        }
+      )
+
+      if (!response.ok) {
+        throw new Error(`Failed to save print area: ${response.statusText}`)
+      }
+
+      toast.success(printArea ? 'Print area saved' : 'Print area cleared')
+    } catch (error) {
+      console.error('Error saving print area:', error)
+      toast.error('Failed to save print area')
+    }
   }
 
   // Delete all mockup images - chỉ xử lý khi user chủ động bấm xóa tất cả
@@ -2113,11 +2872,11 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
       const remainingImages = mockupImages.filter((_, i) => mockupFiles[i]?.isFromDatabase)
 
       // Clear Maps for new files, keep only database file entries
-      const newOffsets = new Map<number, { x: number; y: number }>()
-      const newTransforms1 = new Map<number, Transform>()
-      const newBlendModes1 = new Map<number, GlobalCompositeOperation>()
-      const newTransforms2 = new Map<number, Transform>()
-      const newBlendModes2 = new Map<number, GlobalCompositeOperation>()
+      const newOffsets = new Map<number, LayerOverrides<{ x: number; y: number }>>()
+      const newTransforms = new Map<number, LayerOverrides<Transform>>()
+      const newBlendModes = new Map<number, LayerOverrides<BlendMode>>()
+      const newDisplacementMaps = new Map<number, HTMLImageElement>()
+      const newGarmentMasks = new Map<number, HTMLImageElement>()
 
       // Rebuild Maps with only saved files at new indices
       let newIndex = 0
@@ -2126,17 +2885,17 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
           if (mockupOffsets.has(oldIndex)) {
             newOffsets.set(newIndex, mockupOffsets.get(oldIndex)!)
           }
-          if (mockupCustomTransforms1.has(oldIndex)) {
-            newTransforms1.set(newIndex, mockupCustomTransforms1.get(oldIndex)!)
+          if (mockupCustomTransforms.has(oldIndex)) {
+            newTransforms.set(newIndex, mockupCustomTransforms.get(oldIndex)!)
           }
-          if (mockupCustomBlendModes1.has(oldIndex)) {
-            newBlendModes1.set(newIndex, mockupCustomBlendModes1.get(oldIndex)!)
+          if (mockupCustomBlendModes.has(oldIndex)) {
+            newBlendModes.set(newIndex, mockupCustomBlendModes.get(oldIndex)!)
           }
-          if (mockupCustomTransforms2.has(oldIndex)) {
-            newTransforms2.set(newIndex, mockupCustomTransforms2.get(oldIndex)!)
+          if (mockupDisplacementMaps.has(oldIndex)) {
+            newDisplacementMaps.set(newIndex, mockupDisplacementMaps.get(oldIndex)!)
           }
-          if (mockupCustomBlendModes2.has(oldIndex)) {
-            newBlendModes2.set(newIndex, mockupCustomBlendModes2.get(oldIndex)!)
+          if (mockupGarmentMasks.has(oldIndex)) {
+            newGarmentMasks.set(newIndex, mockupGarmentMasks.get(oldIndex)!)
           }
           newIndex++
         }
@@ -2145,10 +2904,11 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
       setMockupFiles(remainingFiles)
       setMockupImages(remainingImages)
       setMockupOffsets(newOffsets)
-      setMockupCustomTransforms1(newTransforms1)
-      setMockupCustomBlendModes1(newBlendModes1)
-      setMockupCustomTransforms2(newTransforms2)
-      _setMockupCustomBlendModes2(newBlendModes2)
+      setMockupCustomTransforms(newTransforms)
+      setMockupCustomBlendModes(newBlendModes)
+      setHistory(createHistory()) // Snapshots refer to the old mockup indices
+      setMockupDisplacementMaps(newDisplacementMaps)
+      setMockupGarmentMasks(newGarmentMasks)
     }
 
     // Hide all saved files from interface
@@ -2169,7 +2929,6 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
       setImageUploaderResetTrigger(prev => prev + 1)
     }
 
-    setCanvasRefreshKey(prev => prev + 1)
   }
 
   // Render canvas
@@ -2184,92 +2943,236 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
     canvas.width = mockupImage.width
     canvas.height = mockupImage.height
 
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height)
-
-    // Draw mockup
-    ctx.drawImage(mockupImage, 0, 0)
+    // Draw mockup and every layer (order matters - back of the stack first)
+    renderScene(ctx, getMockupScene(selectedMockupIndex, null))
+  }, [mockupImage, layers, selectedMockupIndex, mockupFiles, mockupOffsets, mockupCustomTransforms, mockupCustomBlendModes, displacementStrength, mockupDisplacementMaps])
 
-    // Draw both designs (order matters - design1 first, then design2 on top)
-    drawDesign(ctx, selectedMockupIndex, 1)
-    drawDesign(ctx, selectedMockupIndex, 2)
-  }, [mockupImage, design1, design2, selectedMockupIndex, mockupOffsets, mockupCustomTransforms1, mockupCustomBlendModes1, mockupCustomTransforms2, mockupCustomBlendModes2])
-
-  // Get effective position for a design on a specific mockup
-  const getEffectivePosition = (mockupIndex: number, designNum: 1 | 2 = activeDesignNumber): { x: number; y: number } => {
-    const customTransforms = designNum === 1 ? mockupCustomTransforms1 : mockupCustomTransforms2
-    const design = designNum === 1 ? design1 : design2
+  // Get effective position for a layer on a specific mockup
+  const getEffectivePosition = (mockupIndex: number, layerId: string | null = activeLayerId): { x: number; y: number } => {
+    const layer = layers.find(l => l.id === layerId)
+    if (!layer) return { x: DEFAULT_TRANSFORM.x, y: DEFAULT_TRANSFORM.y }
 
     // Priority 1: Check custom transforms (edit mode)
-    const customTransform = customTransforms.get(mockupIndex)
+    const customTransform = mockupCustomTransforms.get(mockupIndex)?.[layer.id]
     if (customTransform) {
       return { x: customTransform.x, y: customTransform.y }
     }
 
     // Priority 2: Check offsets (drag without edit mode)
-    const offset = mockupOffsets.get(mockupIndex)
+    const offset = mockupOffsets.get(mockupIndex)?.[layer.id]
     if (offset) {
       return offset
     }
 
     // Priority 3: Fall back to global transform
-    return { x: design.transform.x, y: design.transform.y }
+    return { x: layer.transform.x, y: layer.transform.y }
   }
 
-  // Check if point is inside design's bounding box
-  const hitTestDesign = (
-    mockupIndex: number,
-    mouseX: number,
-    mouseY: number
-  ): boolean => {
-    if (!design1.image || !design1.visible) return false
-
-    const pos = getEffectivePosition(mockupIndex)
-    const transform = getEffectiveTransform(mockupIndex)
-
-    // Simple bounding box hit test (ignoring rotation for simplicity)
-    const halfWidth = (design1.image.width * transform.scale * transform.scaleX) / 2
-    const halfHeight = (design1.image.height * transform.scale * transform.scaleY) / 2
-
-    return (
-      mouseX >= pos.x - halfWidth &&
-      mouseX <= pos.x + halfWidth &&
-      mouseY >= pos.y - halfHeight &&
-      mouseY <= pos.y + halfHeight
+  // Top-most visible layer with a visible pixel at a point (mockup px), by stacking order
+  const hitTestDesign = (mockupIndex: number, x: number, y: number): DesignState | null => {
+    const printArea = mockupFiles[mockupIndex]?.printArea ?? null
+    return [...layers]
+      .sort((a, b) => b.order - a.order)
+      .find(layer => {
+        const compositeLayer = getCompositeLayer(mockupIndex, layer)
+        return compositeLayer !== null && hitTestLayer(compositeLayer, { x, y }, printArea)
+      }) ?? null
+  }
+
+  // Pointer position on a grid tile in mockup px (tiles are drawn at preview size)
+  const getTilePoint = (e: React.MouseEvent<HTMLCanvasElement>, mockupIndex: number): { x: number; y: number } => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const mockupImg = mockupImages[mockupIndex]
+    return {
+      x: ((e.clientX - rect.left) * mockupImg.width) / rect.width,
+      y: ((e.clientY - rect.top) * mockupImg.height) / rect.height
+    }
+  }
+
+  const getEditSnapshot = (): EditSnapshot => ({
+    layers: layers.map(({ id, transform, blendMode }) => ({ id, transform, blendMode })),
+    mockupOffsets,
+    mockupCustomTransforms,
+    mockupCustomBlendModes
+  })
+
+  // Record the current state before an edit; edits sharing `coalesceKey` in quick succession form one step
+  const recordHistory = (coalesceKey: string | null = null) => {
+    const snapshot = getEditSnapshot()
+    setHistory(prev => pushHistory(prev, snapshot, coalesceKey))
+  }
+
+  // Layers added or removed since the snapshot keep their current state
+  const restoreEditSnapshot = (snapshot: EditSnapshot) => {
+    const savedLayers = new Map(snapshot.layers.map(layer => [layer.id, layer]))
+    setLayers(prev => prev.map(layer => {
+      const saved = savedLayers.get(layer.id)
+      return saved ? { ...layer, transform: saved.transform, blendMode: saved.blendMode } : layer
+    }))
+    setMockupOffsets(snapshot.mockupOffsets)
+    setMockupCustomTransforms(snapshot.mockupCustomTransforms)
+    setMockupCustomBlendModes(snapshot.mockupCustomBlendModes)
+  }
+
+  const handleUndo = () => {
+    const result = undoHistory(history, getEditSnapshot())
+    if (!result) return
+    setHistory(result.history)
+    restoreEditSnapshot(result.snapshot)
+  }
+
+  const handleRedo = () => {
+    const result = redoHistory(history, getEditSnapshot())
+    if (!result) return
+    setHistory(result.history)
+    restoreEditSnapshot(result.snapshot)
+  }
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); modals keep their own local edits
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return
+      if (editModalOpen || expandedTransformOpen) return
+      const target = e.target as HTMLElement | null
+      if (target && (target.isContentEditable || target.tagName === 'TEXTAREA' ||
+        (target.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'range'))) {
+        return
+      }
+
+      e.preventDefault()
+      if (e.shiftKey) {
+        handleRedo()
+      } else {
+        handleUndo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [history, layers, mockupOffsets, mockupCustomTransforms, mockupCustomBlendModes, editModalOpen, expandedTransformOpen])
+
+  // Handles of the active layer on a tile, in tile canvas px (null if it isn't shown there)
+  const getTileHandles = (mockupIndex: number, canvasWidth: number, canvasHeight: number): HandlePosition[] | null => {
+    const layer = layers.find(l => l.id === activeLayerId)
+    const compositeLayer = layer ? getCompositeLayer(mockupIndex, layer) : null
+    const mockupImg = mockupImages[mockupIndex]
+    if (!compositeLayer || !mockupImg) return null
+
+    const { placement, image } = compositeLayer
+    return getTransformHandles(placement, image.width, image.height, canvasWidth / mockupImg.width, canvasHeight / mockupImg.height)
+  }
+
+  // Handle under the pointer on the selected tile
+  const getHoveredHandle = (e: React.MouseEvent<HTMLCanvasElement>, mockupIndex: number): TransformHandle | null => {
+    if (mockupIndex !== selectedMockupIndex) return null
+
+    const canvas = e.currentTarget
+    const handles = getTileHandles(mockupIndex, canvas.width, canvas.height)
+    if (!handles) return null
+
+    const rect = canvas.getBoundingClientRect()
+    return hitTestHandles(
+      handles,
+      ((e.clientX - rect.left) * canvas.width) / rect.width,
+      ((e.clientY - rect.top) * canvas.height) / rect.height
     )
   }
 
+  // Selection box and handles drawn over the selected tile
+  const drawTileHandles = (canvas: HTMLCanvasElement, mockupIndex: number) => {
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+
+    const layer = layers.find(l => l.id === activeLayerId)
+    const handles = getTileHandles(mockupIndex, canvas.width, canvas.height)
+    if (layer && handles) drawTransformHandles(ctx, handles, getLayerColor(layer.order).stroke)
+
+    const mockupImg = mockupImages[mockupIndex]
+    if (dragMockupIndex === mockupIndex && mockupImg) {
+      drawSnapGuides(ctx, snapGuides, canvas.width / mockupImg.width, canvas.height / mockupImg.height)
+    }
+  }
+
+  const updateInspectorSettings = (updates: Partial<InspectorSettings>) => {
+    const settings = { ...inspectorSettings, ...updates }
+    setInspectorSettings(settings)
+    saveInspectorSettings(settings)
+  }
+
+  const updateSnapSettings = (updates: Partial<SnapSettings>) => {
+    const settings = { ...snapSettings, ...updates }
+    setSnapSettings(settings)
+    saveSnapSettings(settings)
+  }
+
+  // Apply a handle drag the way drags are applied: to this mockup's custom transform in edit
+  // mode, otherwise to the layer's global transform
+  const applyHandleDrag = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!handleDrag) return
+    const { handle, mockupIndex, layerId, start, placement } = handleDrag
+    const updates = getHandleDragUpdates(handle, placement, start, getTilePoint(e, mockupIndex), e.shiftKey)
+
+    // One undo step per handle drag
+    recordHistory(`handle:${mockupIndex}:${layerId}:${start.x},${start.y}`)
+
+    if (editMode.active && editMode.mockupIndex === mockupIndex) {
+      setMockupCustomTransforms(prev => {
+        const newMap = new Map(prev)
+        const currentTransform = getEffectiveTransform(mockupIndex, layerId)
+        newMap.set(mockupIndex, { ...prev.get(mockupIndex), [layerId]: { ...currentTransform, ...updates } })
+        return newMap
+      })
+    } else {
+      setLayers(prev => prev.map(layer =>
+        layer.id === layerId ? { ...layer, transform: { ...layer.transform, ...updates } } : layer
+      ))
+    }
+  }
+
   // Mouse drag handlers for canvas
   const handleCanvasMouseDown = (e: React.MouseEvent<HTMLCanvasElement>, mockupIndex: number) => {
-    const canvas = e.currentTarget
-    const rect = canvas.getBoundingClientRect()
-    const scaleX = canvas.width / rect.width
-    const scaleY = canvas.height / rect.height
-    const mouseX = (e.clientX - rect.left) * scaleX
-    const mouseY = (e.clientY - rect.top) * scaleY
+    const { x: mouseX, y: mouseY } = getTilePoint(e, mockupIndex)
+
+    // Handles of the selected tile take precedence over designs under them
+    const handle = getHoveredHandle(e, mockupIndex)
+    if (handle && activeLayerId) {
+      setHandleDrag({
+        handle,
+        mockupIndex,
+        layerId: activeLayerId,
+        start: { x: mouseX, y: mouseY },
+        placement: { ...getEffectiveTransform(mockupIndex, activeLayerId), ...getEffectivePosition(mockupIndex, activeLayerId) }
+      })
+      e.preventDefault()
+      return
+    }
 
-    // Check if clicking on design
-    const designHit = hitTestDesign(mockupIndex, mouseX, mouseY)
+    // Clicking a design selects that layer and starts dragging it
+    const hitLayer = hitTestDesign(mockupIndex, mouseX, mouseY)
 
-    if (designHit) {
-      const pos = getEffectivePosition(mockupIndex)
+    if (hitLayer) {
+      setActiveLayerId(hitLayer.id)
       setIsDragging(true)
       setDragStartPos({ x: mouseX, y: mouseY })
-      setDragInitialPos(pos)
+      setDragInitialPos(getEffectivePosition(mockupIndex, hitLayer.id))
       setDragMockupIndex(mockupIndex)
+      setDragLayerId(hitLayer.id)
       e.preventDefault()
     }
   }
 
-  const handleCanvasMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDragging || dragMockupIndex === null) return
+  const handleCanvasMouseMove = (e: React.MouseEvent<HTMLCanvasElement>, mockupIndex: number) => {
+    if (handleDrag) {
+      applyHandleDrag(e)
+      return
+    }
+    if (!isDragging || dragMockupIndex === null || dragLayerId === null) {
+      setHoveredHandle(getHoveredHandle(e, mockupIndex))
+      return
+    }
 
-    const canvas = e.currentTarget
-    const rect = canvas.getBoundingClientRect()
-    const scaleX = canvas.width / rect.width
-    const scaleY = canvas.height / rect.height
-    const mouseX = (e.clientX - rect.left) * scaleX
-    const mouseY = (e.clientY - rect.top) * scaleY
+    const { x: mouseX, y: mouseY } = getTilePoint(e, dragMockupIndex)
 
     let dx = mouseX - dragStartPos.x
     let dy = mouseY - dragStartPos.y
@@ -2283,34 +3186,68 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
       }
     }
 
-    const newX = dragInitialPos.x + dx
-    const newY = dragInitialPos.y + dy
+    let newX = dragInitialPos.x + dx
+    let newY = dragInitialPos.y + dy
+
+    // Snap to guides and the grid (Ctrl/Cmd places freely); a Shift-locked axis stays put
+    const draggedLayer = layers.find(l => l.id === dragLayerId)
+    const dragLayer = draggedLayer ? getCompositeLayer(dragMockupIndex, draggedLayer) : null
+    const mockupImg = mockupImages[dragMockupIndex]
+    if (dragLayer && mockupImg && !(e.ctrlKey || e.metaKey)) {
+      const otherLayers = toSnapLayers(layers, dragLayerId, layer => ({
+        ...getEffectiveTransform(dragMockupIndex, layer.id),
+        ...getEffectivePosition(dragMockupIndex, layer.id)
+      }))
+      const snapped = snapPosition(
+        { placement: { ...dragLayer.placement, x: newX, y: newY }, width: dragLayer.image.width, height: dragLayer.image.height },
+        getSnapTargets(mockupImg.width, mockupImg.height, mockupFiles[dragMockupIndex]?.printArea ?? null, otherLayers),
+        snapSettings,
+        (SNAP_THRESHOLD * mockupImg.width) / e.currentTarget.getBoundingClientRect().width,
+        { x: !e.shiftKey || dx !== 0, y: !e.shiftKey || dy !== 0 }
+      )
+      newX = snapped.x
+      newY = snapped.y
+      setSnapGuides(snapped.guides)
+    } else {
+      setSnapGuides([])
+    }
+
+    // One undo step per drag
+    recordHistory(`drag:${dragMockupIndex}:${dragLayerId}:${dragStartPos.x},${dragStartPos.y}`)
 
     // If in edit mode on this mockup, update custom transforms instead of offsets
     if (editMode.active && editMode.mockupIndex === dragMockupIndex) {
-      // Update design's custom transform
-      setMockupCustomTransforms1(prev => {
+      // Update layer's custom transform
+      setMockupCustomTransforms(prev => {
         const newMap = new Map(prev)
-        const currentTransform = getEffectiveTransform(dragMockupIndex)
-        newMap.set(dragMockupIndex, { ...currentTransform, x: newX, y: newY })
+        const currentTransform = getEffectiveTransform(dragMockupIndex, dragLayerId)
+        newMap.set(dragMockupIndex, { ...prev.get(dragMockupIndex), [dragLayerId]: { ...currentTransform, x: newX, y: newY } })
         return newMap
       })
     } else {
       // Update position offsets for non-edit-mode drag
       setMockupOffsets(prev => {
         const newMap = new Map(prev)
-        newMap.set(dragMockupIndex, { x: newX, y: newY })
+        newMap.set(dragMockupIndex, { ...prev.get(dragMockupIndex), [dragLayerId]: { x: newX, y: newY } })
         return newMap
       })
     }
   }
 
+  const getTileCursor = (mockupIndex: number): string => {
+    if (handleDrag) return HANDLE_CURSORS[handleDrag.handle]
+    if (isDragging && dragMockupIndex === mockupIndex) return 'grabbing'
+    if (hoveredHandle && mockupIndex === selectedMockupIndex) return HANDLE_CURSORS[hoveredHandle]
+    return 'grab'
+  }
+
   const handleCanvasMouseUp = () => {
-    if (isDragging) {
-      setCanvasRefreshKey(prev => prev + 1)
-    }
+    setHandleDrag(null)
+    setSnapGuides([])
+    setHoveredHandle(null)
     setIsDragging(false)
     setDragMockupIndex(null)
+    setDragLayerId(null)
   }
 
   // Keyboard handlers
@@ -2319,11 +3256,17 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
       if (e.key === 'Escape' && isDragging) {
         setIsDragging(false)
         setDragMockupIndex(null)
+        setDragLayerId(null)
         // Restore original position
-        if (dragMockupIndex !== null) {
+        if (dragMockupIndex !== null && dragLayerId !== null) {
           setMockupOffsets(prev => {
             const newMap = new Map(prev)
-            newMap.delete(dragMockupIndex)
+            const { [dragLayerId]: _restored, ...rest } = prev.get(dragMockupIndex) ?? {}
+            if (Object.keys(rest).length > 0) {
+              newMap.set(dragMockupIndex, rest)
+            } else {
+              newMap.delete(dragMockupIndex)
+            }
             return newMap
           })
         }
@@ -2332,131 +3275,122 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [isDragging, dragMockupIndex])
+  }, [isDragging, dragMockupIndex, dragLayerId])
 
-  // Get active design state and setter
-  const getActiveDesignState = (): DesignState => {
-    return activeDesignNumber === 1 ? design1 : design2
+  // Get active layer state
+  const getActiveDesignState = (): DesignState | null => {
+    return layers.find(layer => layer.id === activeLayerId) ?? null
   }
 
-  // Get effective transform and blend mode for the active design (considering edit mode)
+  // Get effective transform and blend mode for the active layer (considering edit mode)
   const getActiveEffectiveTransform = (): Transform => {
     if (editMode.active && editMode.mockupIndex !== null) {
       return getEffectiveTransform(editMode.mockupIndex)
     }
-    return getActiveDesignState().transform
+    // Show where the layer sits on the selected mockup, including a grid drag offset
+    return { ...(getActiveDesignState()?.transform ?? DEFAULT_TRANSFORM), ...getEffectivePosition(selectedMockupIndex) }
   }
 
   const getActiveEffectiveBlendMode = (): BlendMode => {
     if (editMode.active && editMode.mockupIndex !== null) {
       return getEffectiveBlendMode(editMode.mockupIndex)
     }
-    return getActiveDesignState().blendMode
+    return getActiveDesignState()?.blendMode ?? 'multiply'
   }
 
-  const updateActiveDesignTransform = (updates: Partial<Transform>) => {
-    if (editMode.active && editMode.mockupIndex !== null) {
-      // Update custom transform for this specific mockup
-      const idx = editMode.mockupIndex
+  // Update a layer's transform - per-mockup custom transform in edit mode, global otherwise
+  const updateLayerTransform = (layerId: string, updates: Partial<Transform>) => {
+    // Slider moves and preview drags of the same properties coalesce into one undo step
+    const scope = editMode.active && editMode.mockupIndex !== null ? editMode.mockupIndex : 'all'
+    recordHistory(`transform:${scope}:${layerId}:${Object.keys(updates).sort().join(',')}`)
 
-      if (activeDesignNumber === 1) {
-        setMockupCustomTransforms1(prev => {
-          const newMap = new Map(prev)
-          const currentTransform = getEffectiveTransform(idx, 1)
-          newMap.set(idx, { ...currentTransform, ...updates })
-          return newMap
-        })
-      } else {
-        // TODO: Implement Design 2 custom transforms
-        // For now, update Design 2 global transform
-        setDesign2(prev => ({
-          ...prev,
-          transform: { ...prev.transform, ...updates }
-        }))
-      }
-      // Force canvas refresh
-      setCanvasRefreshKey(prev => prev + 1)
-    } else {
-      // Update global transform based on active design
-      if (activeDesignNumber === 1) {
-        setDesign1(prev => ({
-          ...prev,
-          transform: { ...prev.transform, ...updates }
-        }))
-      } else {
-        setDesign2(prev => ({
-          ...prev,
-          transform: { ...prev.transform, ...updates }
-        }))
-      }
-      // Force canvas refresh for global changes too
-      setCanvasRefreshKey(prev => prev + 1)
-    }
-  }
-
-  const updateActiveDesignBlendMode = (mode: BlendMode) => {
     if (editMode.active && editMode.mockupIndex !== null) {
-      // Update custom blend mode for this specific mockup
+      // Update custom transform for this specific mockup
       const idx = editMode.mockupIndex
-
-      if (activeDesignNumber === 1) {
-        setMockupCustomBlendModes1(prev => {
-          const newMap = new Map(prev)
-          newMap.set(idx, mode)
-          return newMap
-        })
-      } else {
-        // TODO: Implement Design 2 custom blend modes
-        // For now, update Design 2 global blend mode
-        setDesign2(prev => ({ ...prev, blendMode: mode }))
-      }
-      setCanvasRefreshKey(prev => prev + 1)
+      setMockupCustomTransforms(prev => {
+        const newMap = new Map(prev)
+        // Start from where the layer is drawn on this mockup (including a grid drag offset)
+        const currentTransform = { ...getEffectiveTransform(idx, layerId), ...getEffectivePosition(idx, layerId) }
+        newMap.set(idx, { ...prev.get(idx), [layerId]: { ...currentTransform, ...updates } })
+        return newMap
+      })
     } else {
-      // Update global blend mode based on active design
-      if (activeDesignNumber === 1) {
-        setDesign1(prev => ({ ...prev, blendMode: mode }))
-      } else {
-        setDesign2(prev => ({ ...prev, blendMode: mode }))
-      }
-      setCanvasRefreshKey(prev => prev + 1)
+      // Update global transform
+      setLayers(prev => prev.map(layer =>
+        layer.id === layerId ? { ...layer, transform: { ...layer.transform, ...updates } } : layer
+      ))
     }
   }
 
-  // Specific handlers for InteractivePreview to update the correct design
-  const updateDesign1Transform = (updates: Partial<Transform>) => {
-    if (editMode.active && editMode.mockupIndex !== null) {
-      const idx = editMode.mockupIndex
-      setMockupCustomTransforms1(prev => {
+  const updateActiveDesignTransform = (updates: Partial<Transform>) => {
+    if (!activeLayerId) return
+    const layerId = activeLayerId
+
+    // Outside edit mode, moving a layer that was dragged on the selected mockup moves that mockup's offset
+    const offset = editMode.active ? undefined : mockupOffsets.get(selectedMockupIndex)?.[layerId]
+    if (offset && (updates.x !== undefined || updates.y !== undefined)) {
+      const { x = offset.x, y = offset.y, ...rest } = updates
+      const idx = selectedMockupIndex
+      recordHistory(`offset:${idx}:${layerId}:${Object.keys(updates).sort().join(',')}`)
+      setMockupOffsets(prev => {
         const newMap = new Map(prev)
-        const currentTransform = getEffectiveTransform(idx, 1)
-        newMap.set(idx, { ...currentTransform, ...updates })
+        newMap.set(idx, { ...prev.get(idx), [layerId]: { x, y } })
         return newMap
       })
-    } else {
-      setDesign1(prev => ({
-        ...prev,
-        transform: { ...prev.transform, ...updates }
-      }))
+      if (Object.keys(rest).length > 0) updateLayerTransform(layerId, rest)
+      return
     }
-    setCanvasRefreshKey(prev => prev + 1)
+    updateLayerTransform(layerId, updates)
   }
 
-  const updateDesign2Transform = (updates: Partial<Transform>) => {
+  // Arrow keys nudge the active layer by the inspector step (Shift = ×10); modals nudge their own copy
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) return
+      if (!activeLayerId || editModalOpen || expandedTransformOpen || e.ctrlKey || e.metaKey || e.altKey) return
+      const target = e.target as HTMLElement | null
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return
+
+      const mockupImg = mockupImages[selectedMockupIndex]
+      if (!mockupImg) return
+      const { unit, nudgeStep, printWidthInches } = inspectorSettings
+      const frame = getUnitFrame(unit, mockupImg.width, mockupImg.height, mockupFiles[selectedMockupIndex]?.printArea ?? null, printWidthInches)
+      const step = nudgeStep * (e.shiftKey ? 10 : 1)
+      const dx = step * (frame?.scaleX ?? 1)
+      const dy = step * (frame?.scaleY ?? 1)
+
+      e.preventDefault()
+      const { x, y } = getActiveEffectiveTransform()
+      switch (e.key) {
+        case 'ArrowLeft': updateActiveDesignTransform({ x: x - dx }); break
+        case 'ArrowRight': updateActiveDesignTransform({ x: x + dx }); break
+        case 'ArrowUp': updateActiveDesignTransform({ y: y - dy }); break
+        case 'ArrowDown': updateActiveDesignTransform({ y: y + dy }); break
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [activeLayerId, layers, mockupOffsets, mockupCustomTransforms, mockupCustomBlendModes, editMode, editModalOpen, expandedTransformOpen,
+    mockupImages, mockupFiles, selectedMockupIndex, inspectorSettings])
+
+  const updateActiveDesignBlendMode = (mode: BlendMode) => {
+    if (!activeLayerId) return
+    const layerId = activeLayerId
+    recordHistory()
+
     if (editMode.active && editMode.mockupIndex !== null) {
+      // Update custom blend mode for this specific mockup
       const idx = editMode.mockupIndex
-      setMockupCustomTransforms2(prev => {
+      setMockupCustomBlendModes(prev => {
         const newMap = new Map(prev)
-        const currentTransform = getEffectiveTransform(idx, 2)
-        newMap.set(idx, { ...currentTransform, ...updates })
+        newMap.set(idx, { ...prev.get(idx), [layerId]: mode })
         return newMap
       })
     } else {
-      setDesign2(prev => ({
-        ...prev,
-        transform: { ...prev.transform, ...updates }
-      }))
+      // Update global blend mode for the active layer
+      setLayers(prev => prev.map(layer => layer.id === layerId ? { ...layer, blendMode: mode } : layer))
     }
-    setCanvasRefreshKey(prev => prev + 1)
   }
 
   // Optimized save with non-blocking progress toasts, Cancel, and Retry
@@ -2465,6 +3399,7 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
     let cancelRequested = false
     let progressToastId: string | null = null
     let uploadedCount = 0
+    let existingCount = 0 // Uploads the server already had (same content)
     let failedCount = 0
     let deletedCount = 0
 
@@ -2473,7 +3408,7 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
       if (deletedFileNames.length > 0) {
         for (const filename of deletedFileNames) {
           try {
-            const response = await fetch(`${API_BASE}/files/${userId}/${encodeURIComponent(filename)}`, {
+            const response = await authFetch(`${API_BASE}/files/${encodeURIComponent(filename)}`, {
               method: 'DELETE'
             })
 
@@ -2532,10 +3467,12 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
             try {
               const formData = new FormData()
               formData.append('file', file.file)
-              formData.append('userId', userId)
               formData.append('ext', file.ext)
+              if (file.printArea) {
+                formData.append('printArea', JSON.stringify(file.printArea))
+              }
 
-              const response = await fetch(`${API_BASE}/files/upload`, {
+              const response = await authFetch(`${API_BASE}/files/upload`, {
                 method: 'POST',
                 body: formData
               })
@@ -2546,17 +3483,30 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
                 return { success: false, error: response.status }
               }
 
-              uploadedCount++
+              const data = await response.json() as { alreadyExists?: boolean; file: { name: string; printArea?: unknown } }
+              if (data.alreadyExists) {
+                existingCount++
+              } else {
+                uploadedCount++
+              }
+
+              // Saved now, so Unsaved Changes (and a retry after Cancel) skip it
+              // (an existing copy keeps its stored print area unless this upload sent one)
+              setMockupFiles(prev => prev.map(f => f.id === file.id
+                ? { ...f, name: data.file.name, isFromDatabase: true, printArea: parsePrintArea(data.file.printArea) }
+                : f))
+
               // Update progress
+              const doneCount = uploadedCount + existingCount
               if (progressToastId && !cancelRequested) {
-                const progress = Math.round((uploadedCount / filesToUpload.length) * 100)
+                const progress = Math.round((doneCount / filesToUpload.length) * 100)
                 toast.updateToast(progressToastId, {
                   progress,
-                  message: `Uploading ${filesToUpload.length} file${filesToUpload.length !== 1 ? 's' : ''}... (${uploadedCount}/${filesToUpload.length})`
+                  message: `Uploading ${filesToUpload.length} file${filesToUpload.length !== 1 ? 's' : ''}... (${doneCount}/${filesToUpload.length})`
                 })
               }
 
-              return { success: true, data: await response.json() }
+              return { success: true, data }
             } catch (error) {
               failedCount++
               console.error(`Upload error for ${file.name}:`, error)
@@ -2592,17 +3542,19 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
       setSelectedMockupIndex(0)
       setMockupImage(null)
       setDeletedFileNames([])
+      setHistory(createHistory())
 
       // Show success toast
       let message: string
       let toastType: ToastType = 'success'
 
-      if (uploadedCount === 0 && deletedCount === 0 && failedCount === 0) {
+      if (uploadedCount === 0 && existingCount === 0 && deletedCount === 0 && failedCount === 0) {
         message = 'No changes to save.'
       } else if (failedCount > 0) {
         // Partial errors
         const parts = []
         if (uploadedCount > 0) parts.push(`uploaded ${uploadedCount}`)
+        if (existingCount > 0) parts.push(`${existingCount} already saved`)
         if (deletedCount > 0) parts.push(`deleted ${deletedCount}`)
         parts.push(`${failedCount} failed`)
         message = parts.join(', ') + '.'
@@ -2611,6 +3563,7 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
         // All successful
         const parts = []
         if (uploadedCount > 0) parts.push(`${uploadedCount} file${uploadedCount !== 1 ? 's' : ''} uploaded`)
+        if (existingCount > 0) parts.push(`${existingCount} already saved`)
         if (deletedCount > 0) parts.push(`${deletedCount} file${deletedCount !== 1 ? 's' : ''} deleted`)
         message = parts.join(', ') + ' successfully.'
       }
@@ -2659,65 +3612,318 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
 
       setIsSaving(false)
     }
-  }
+  }
+
+  // Export all mockups as ZIP
+  // Output file names (without extension) for every visible mockup and colourway, in export order.
+  // `preset` gives the output size ({width}/{height}); null means full size.
+  const getExportFileNames = (
+    settings: ExportSettings,
+    preset: ExportPreset | null,
+    designName = getBaseName(getActiveDesignState()?.name ?? layers.find(layer => layer.image && layer.visible)?.name ?? 'design'),
+    date = new Date()
+  ): string[] => {
+    const used = new Set<string>()
+    return mockupImages.flatMap((mockupImg, index) => {
+      if (hiddenMockupIndices.has(index)) return []
+
+      const size = preset ? getPresetOutputSize(mockupImg.width, mockupImg.height, preset) : mockupImg
+      const colourways = mockupFiles[index]?.colourways ?? []
+      const variants: (string | null)[] = colourways.length > 0 ? colourways : [null]
+
+      return variants.map(colour => getUniqueName(applyFilenameTemplate(settings.filenameTemplate, {
+        mockupName: getBaseName(mockupFiles[index]?.name ?? `mockup_${index + 1}`),
+        designName,
+        index: index + 1,
+        colour,
+        date,
+        width: size.width,
+        height: size.height,
+        userId
+      }), used))
+    })
+  }
+
+  // Render variants and write their files to a ZIP, with a cancellable progress toast. Mockups are
+  // rendered by a small worker pool (on the page without worker support) and each file is written
+  // to the streamed ZIP once encoded, so only a few full-size renders exist at a time.
+  const writeExportZip = async (
+    variants: ExportVariant[],
+    settings: ExportSettings,
+    sink: ZipSink,
+    messages: ExportMessages
+  ) => {
+    const pool = canUseExportWorkers() ? createExportWorkerPool(getExportWorkerCount()) : null
+    const zipWriter = createZipWriter(sink.write)
+    const total = variants.length
+    let cancelRequested = false
+    let failed = false
+    let exported = 0
+
+    const progressToastId = toast.showAdvancedToast({
+      type: 'loading',
+      message: `${messages.progress} ${total} image${total !== 1 ? 's' : ''}...`,
+      duration: 0,
+      progress: 0,
+      actions: [
+        {
+          label: 'Cancel',
+          onClick: () => {
+            cancelRequested = true
+            pool?.terminate()
+            toast.updateToast(progressToastId, {
+              type: 'info',
+              message: messages.cancelled,
+              duration: 3000,
+              progress: undefined,
+              actions: []
+            })
+          }
+        }
+      ]
+    })
+
+    // Full-size render of one mockup/colourway, encoded once per preset
+    const renderVariant = async ({ index, colour, getImage }: ExportVariant): Promise<ArrayBuffer[]> => {
+      const scene = getMockupScene(index, colour, getImage)
+
+      if (!pool) {
+        const ctx = composeMockup(scene)
+        if (!ctx) throw new Error('Could not create canvas')
+        return encodeExportPresets(ctx.canvas, settings)
+      }
+
+      return pool.render({
+        ...scene,
+        background: await createImageBitmap(scene.background),
+        layers: await Promise.all(scene.layers.map(async layer => ({ ...layer, image: await createImageBitmap(layer.image) }))),
+        settings
+      })
+    }
+
+    // Renders finish in any order; their files are appended to the ZIP one at a time
+    let writeQueue = Promise.resolve()
+    const writeVariant = (variant: ExportVariant, files: ArrayBuffer[]) => {
+      writeQueue = writeQueue.then(async () => {
+        for (const [presetIndex, path] of variant.paths.entries()) {
+          await zipWriter.addFile(path, new Uint8Array(files[presetIndex]))
+        }
+      })
+      return writeQueue
+    }
+
+    let nextVariant = 0
+    const runExports = async () => {
+      while (!cancelRequested && !failed && nextVariant < total) {
+        const variant = variants[nextVariant++]
+        const files = await renderVariant(variant)
+        if (cancelRequested) return
+        await writeVariant(variant, files)
+
+        exported++
+        toast.updateToast(progressToastId, {
+          progress: Math.round((exported / total) * 100),
+          message: `${messages.progress} ${total} image${total !== 1 ? 's' : ''}... (${exported}/${total})`
+        })
+      }
+    }
+
+    try {
+      await Promise.all(Array.from({ length: pool?.size ?? 1 }, runExports))
+      if (cancelRequested) {
+        await sink.abort()
+        return
+      }
+
+      await zipWriter.close()
+      await sink.close()
+      toast.dismissToast(progressToastId)
+      toast.success(`${messages.done} ${total} image${total !== 1 ? 's' : ''}`)
+    } catch (error) {
+      failed = true
+      await sink.abort().catch(() => {})
+      if (cancelRequested) return
+
+      console.error(`${messages.failed}:`, error)
+      toast.dismissToast(progressToastId)
+      toast.error(error instanceof Error ? `${messages.failed}: ${error.message}` : messages.failed)
+    } finally {
+      pool?.terminate()
+    }
+  }
+
+  // Export every visible mockup (and colourway) once per size preset: mockups/<preset>/<file name>.<ext>
+  const handleExport = async (settings: ExportSettings) => {
+    const variants = mockupImages.flatMap((_, index) => {
+      // Skip hidden mockups
+      if (hiddenMockupIndices.has(index)) return []
+      const colourways = mockupFiles[index]?.colourways ?? []
+      return (colourways.length > 0 ? colourways : [null]).map(colour => ({ index, colour }))
+    })
+    if (variants.length === 0) return
+
+    setShowExportModal(false)
+    setExportSettings(settings)
+    saveExportSettings(settings)
+
+    // Ask for the destination first: the save picker needs the click's user activation
+    const sink = await openZipSink('mockups.zip')
+    if (!sink) return
+
+    const { extension } = getFormatInfo(settings.format)
+    const fileNames = settings.presets.map(preset => getExportFileNames(settings, preset))
+
+    await writeExportZip(
+      variants.map((variant, variantIndex) => ({
+        ...variant,
+        paths: settings.presets.map((preset, presetIndex) =>
+          `mockups/${getPresetFolder(preset)}/${fileNames[presetIndex][variantIndex]}.${extension}`)
+      })),
+      settings,
+      sink,
+      { progress: 'Exporting', done: 'Exported', cancelled: 'Export cancelled', failed: 'Export failed' }
+    )
+  }
+
+  // Visible image layers of a mockup with their effective transform and position
+  const getPrintLayers = (mockupIndex: number): DesignState[] => {
+    return getEffectiveLayers(mockupIndex)
+      .filter(layer => layer.image && layer.visible)
+      .map(layer => ({ ...layer, transform: { ...layer.transform, ...getEffectivePosition(mockupIndex, layer.id) } }))
+  }
+
+  // Print file: the design layers inside the print area at a physical size, as a transparent PNG
+  // with its DPI embedded. Blend modes, warps and fabric displacement only apply to the photo.
+  const handlePrintExport = async (options: PrintExportOptions) => {
+    if (printExportIndex === null) return
+    const mockupIndex = printExportIndex
+    const printArea = mockupFiles[mockupIndex]?.printArea
+    if (!printArea) return
+
+    setIsPrintExporting(true)
+    try {
+      const { width, height } = getPrintPixelSize(options.widthInches, options.heightInches, options.dpi)
+      const mapping = getPrintMapping(getPrintAreaBounds(printArea), width, height)
+
+      const canvas = document.createElement('canvas')
+      canvas.width = width
+      canvas.height = height
+      const ctx = canvas.getContext('2d')
+      if (!ctx) throw new Error('Could not create canvas')
+
+      ctx.imageSmoothingQuality = 'high'
+      ctx.setTransform(mapping.scale, 0, 0, mapping.scale, mapping.offsetX, mapping.offsetY)
+      toCompositeLayers(getPrintLayers(mockupIndex)).forEach(layer => drawCompositeLayer(
+        ctx,
+        { ...layer, placement: { ...layer.placement, warp: null }, blendMode: 'source-over' },
+        printArea,
+        null,
+        0
+      ))
+
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+      if (!blob) throw new Error('Could not encode PNG')
+      const png = await setPngDpi(blob, options.dpi)
+
+      const url = URL.createObjectURL(png)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${getBaseName(mockupFiles[mockupIndex]?.name ?? `mockup_${mockupIndex + 1}`)}_print_${options.dpi}dpi.png`
+      a.click()
+      URL.revokeObjectURL(url)
+
+      setPrintExportIndex(null)
+      toast.success(`Print file exported (${width}×${height}px at ${options.dpi} DPI)`)
+    } catch (error) {
+      console.error('Print file export failed:', error)
+      toast.error('Failed to export print file')
+    } finally {
+      setIsPrintExporting(false)
+    }
+  }
+
+  // Load a folder of designs for batch rendering
+  const handleBatchDesignUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+      .filter(file => file.type.startsWith('image/'))
+      .sort((a, b) => a.name.localeCompare(b.name))
+    e.target.value = ''
+    if (files.length === 0) return
+
+    const loaded = await Promise.all(files.map(file => new Promise<BatchDesign | null>((resolve) => {
+      const reader = new FileReader()
+      reader.onload = (event) => {
+        const img = new Image()
+        img.onload = () => resolve({ id: Math.random().toString(36).substring(2, 11), name: getBaseName(file.name), image: img })
+        img.onerror = () => {
+          console.error(`Failed to load design: ${file.name}`)
+          resolve(null)
+        }
+        img.src = event.target?.result as string
+      }
+      reader.onerror = () => resolve(null)
+      reader.readAsDataURL(file)
+    })))
+
+    const designs = loaded.filter((design): design is BatchDesign => design !== null)
+    setBatchDesigns(designs)
+    toast.success(`Loaded ${designs.length} design${designs.length !== 1 ? 's' : ''} for batch rendering`)
+  }
+
+  // Render every batch design onto every visible mockup (and colourway) in place of the active layer,
+  // with the saved export settings. ZIP layout: <design name>/<preset>/<file name>.<ext>
+  const handleBatchExport = async () => {
+    const template = getActiveDesignState()
+    if (!template?.image || template.text) {
+      toast.error('Select an image layer to use as the design placement')
+      return
+    }
 
-  // Export all mockups as ZIP
-  const handleExport = async () => {
-    if (mockupImages.filter((_, i) => !hiddenMockupIndices.has(i)).length === 0) return
-
-    const zip = new JSZip()
-    const folder = zip.folder('mockups')
-
-    // Create promises for all canvas conversions
-    const promises = mockupImages
-      .map((mockupImg, index) => {
-        // Skip hidden mockups
-        if (hiddenMockupIndices.has(index)) return null
-
-        return new Promise<void>((resolve) => {
-          const tempCanvas = document.createElement('canvas')
-          const ctx = tempCanvas.getContext('2d')
-          if (!ctx) {
-            resolve()
-            return
-          }
+    const visibleIndices = mockupImages.map((_, i) => i).filter(i => !hiddenMockupIndices.has(i))
+    if (batchDesigns.length === 0 || visibleIndices.length === 0) return
 
-          tempCanvas.width = mockupImg.width
-          tempCanvas.height = mockupImg.height
+    // Ask for the destination first: the save picker needs the click's user activation
+    const sink = await openZipSink('batch_mockups.zip')
+    if (!sink) return
 
-          // Draw mockup
-          ctx.clearRect(0, 0, tempCanvas.width, tempCanvas.height)
-          ctx.drawImage(mockupImg, 0, 0)
+    const settings = exportSettings
+    const { extension } = getFormatInfo(settings.format)
+    const usedDesignNames = new Set<string>()
+    const date = new Date()
 
-          // Draw both designs
-          drawDesign(ctx, index, 1)
-          drawDesign(ctx, index, 2)
+    const variants = batchDesigns.flatMap(design => {
+      const folder = getUniqueName(design.name, usedDesignNames)
+      const fileNames = settings.presets.map(preset => getExportFileNames(settings, preset, design.name, date))
+      const getImage = (layer: DesignState) => layer.id === template.id ? design.image : layer.image
 
-          // Convert to blob and add to zip
-          tempCanvas.toBlob((blob) => {
-            if (blob && folder) {
-              folder.file(`mockup_${index + 1}.png`, blob)
-            }
-            resolve()
-          }, 'image/png')
+      return visibleIndices
+        .flatMap(index => {
+          const colourways = mockupFiles[index]?.colourways ?? []
+          return (colourways.length > 0 ? colourways : [null]).map(colour => ({ index, colour }))
         })
-      })
-      .filter((p): p is Promise<void> => p !== null)
-
-    // Wait for all images to be processed
-    await Promise.all(promises)
-
-    // Generate and download zip
-    zip.generateAsync({ type: 'blob' }).then((content) => {
-      const url = URL.createObjectURL(content)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = 'mockups.zip'
-      a.click()
-      URL.revokeObjectURL(url)
+        .map((variant, variantIndex) => ({
+          ...variant,
+          getImage,
+          paths: settings.presets.map((preset, presetIndex) =>
+            `${folder}/${getPresetFolder(preset)}/${fileNames[presetIndex][variantIndex]}.${extension}`)
+        }))
     })
+
+    setIsBatchRendering(true)
+    try {
+      await writeExportZip(variants, settings, sink, {
+        progress: 'Rendering',
+        done: 'Rendered',
+        cancelled: 'Batch render cancelled',
+        failed: 'Batch render failed'
+      })
+    } finally {
+      setIsBatchRendering(false)
+    }
   }
 
+  // Style of the active layer when it is a text layer
+  const activeTextStyle = getActiveDesignState()?.text ?? null
 
   return (
     <div className="flex flex-col lg:flex-row gap-6">
@@ -2727,6 +3933,13 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
         <div>
           <div className="flex justify-between items-center mb-4">
             <h2 className="text-xl font-semibold">Upload Images</h2>
+            <button
+              onClick={() => setShowApiKeysModal(true)}
+              className="text-xs text-gray-400 hover:text-white transition"
+              title="Create and revoke keys for programmatic access"
+            >
+              🔑 API Keys
+            </button>
             {/*
             <div className="text-sm text-gray-400">
               User ID: <span className="text-blue-400 font-semibold">{userId}</span>
@@ -2754,6 +3967,36 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
               </button>
             </div>
 
+            {/* Project Buttons */}
+            <div className="bg-gray-700 rounded-lg p-3 space-y-2">
+              <div className="text-sm">
+                <span className="text-gray-400">Project:</span>
+                <span className="text-white ml-2">{currentProject ? currentProject.name : 'Unsaved scene'}</span>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <button
+                  onClick={() => setShowProjectsModal(true)}
+                  className="bg-gray-600 hover:bg-gray-500 text-white text-xs font-semibold py-2 px-2 rounded transition"
+                >
+                  📁 Projects
+                </button>
+                <button
+                  onClick={() => handleSaveProject()}
+                  disabled={isSavingProject}
+                  className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-xs font-semibold py-2 px-2 rounded transition"
+                >
+                  {isSavingProject ? 'Saving...' : '💾 Save Project'}
+                </button>
+                <button
+                  onClick={() => handleSaveProject(true)}
+                  disabled={isSavingProject || !currentProject}
+                  className="bg-gray-600 hover:bg-gray-500 disabled:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white text-xs font-semibold py-2 px-2 rounded transition"
+                >
+                  Save As…
+                </button>
+              </div>
+            </div>
+
             {/* Save Changes Button - Full Width */}
             <button
               onClick={handleSave}
@@ -2786,41 +4029,80 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
               resetTrigger={imageUploaderResetTrigger}
             />
 
-            {/* Design 1 Upload */}
+            {/* Design Layers */}
             <div>
               <label className="block text-sm font-medium mb-2">
-                Design 1 (transparent PNG)
+                Design Layers (transparent PNG)
               </label>
               <input
                 type="file"
                 accept="image/*"
-                onChange={handleDesign1Upload}
+                multiple
+                onChange={handleLayerUpload}
                 className="block w-full text-sm text-gray-400 border border-gray-600 rounded px-3 py-2 bg-gray-700 hover:bg-gray-600 cursor-pointer file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-green-600 file:text-white hover:file:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
                 disabled={mockupImages.length === 0}
               />
-              {design1.image && (
-                <p className="text-xs text-green-400 mt-1">
-                  ✓ Design 1 loaded: {design1.image.width} x {design1.image.height}px
-                </p>
-              )}
-            </div>
-
-            {/* Design 2 Upload */}
-            <div>
-              <label className="block text-sm font-medium mb-2">
-                Design 2 (transparent PNG)
-              </label>
-              <input
-                type="file"
-                accept="image/*"
-                onChange={handleDesign2Upload}
-                className="block w-full text-sm text-gray-400 border border-gray-600 rounded px-3 py-2 bg-gray-700 hover:bg-gray-600 cursor-pointer file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-orange-600 file:text-white hover:file:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              <button
+                onClick={addTextLayer}
                 disabled={mockupImages.length === 0}
-              />
-              {design2.image && (
-                <p className="text-xs text-orange-400 mt-1">
-                  ✓ Design 2 loaded: {design2.image.width} x {design2.image.height}px
-                </p>
+                className="mt-2 w-full bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-semibold py-2 px-4 rounded transition"
+              >
+                ＋ Add Text Layer
+              </button>
+              {layers.length > 0 && (
+                <div className="mt-2 space-y-1">
+                  {/* Front of the stack first */}
+                  {[...layers].reverse().map(layer => (
+                    <div
+                      key={layer.id}
+                      onClick={() => setActiveLayerId(layer.id)}
+                      className={`flex items-center gap-2 rounded px-2 py-1 text-xs cursor-pointer transition ${
+                        activeLayerId === layer.id ? 'bg-gray-600 ring-1 ring-blue-400' : 'bg-gray-700 hover:bg-gray-600'
+                      }`}
+                    >
+                      <span
+                        className="w-3 h-3 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: getLayerColor(layer.order).stroke }}
+                      />
+                      <span className={`flex-1 truncate ${layer.visible ? 'text-white' : 'text-gray-500 line-through'}`} title={layer.name}>
+                        {layer.name}
+                        {layer.image && (
+                          <span className="text-gray-400 ml-1">{layer.image.width} x {layer.image.height}px</span>
+                        )}
+                      </span>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); toggleLayerVisibility(layer.id) }}
+                        className="px-1 hover:text-blue-300"
+                        title={layer.visible ? 'Hide layer' : 'Show layer'}
+                      >
+                        {layer.visible ? '👁' : '🚫'}
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); moveLayer(layer.id, 1) }}
+                        disabled={layer.order === layers.length - 1}
+                        className="px-1 hover:text-blue-300 disabled:opacity-30"
+                        title="Bring forward"
+                      >
+                        ▲
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); moveLayer(layer.id, -1) }}
+                        disabled={layer.order === 0}
+                        className="px-1 hover:text-blue-300 disabled:opacity-30"
+                        title="Send backward"
+                      >
+                        ▼
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); removeLayer(layer.id) }}
+                        className="px-1 hover:text-red-400"
+                        title="Remove layer"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
               )}
             </div>
           </div>
@@ -2828,77 +4110,115 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
 
 
         {/* Design Controls */}
-        {design1.image && mockupImages.length > 0 && (
+        {layers.some(layer => layer.image) && mockupImages.length > 0 && (
           <>
             <div>
-              <h2 className="text-xl font-semibold mb-4">
-                Transform
-                {editMode.active && editMode.mockupIndex !== null && (
-                  <span className="text-sm text-blue-400 ml-2">(Mockup {editMode.mockupIndex + 1})</span>
-                )}
-              </h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold">
+                  Transform
+                  {editMode.active && editMode.mockupIndex !== null && (
+                    <span className="text-sm text-blue-400 ml-2">(Mockup {editMode.mockupIndex + 1})</span>
+                  )}
+                </h2>
+                <div className="flex gap-1">
+                  <button
+                    onClick={handleUndo}
+                    disabled={history.past.length === 0}
+                    className="px-2 py-1 text-sm bg-gray-600 hover:bg-gray-500 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded transition"
+                    title="Undo (Ctrl+Z)"
+                  >
+                    ↶
+                  </button>
+                  <button
+                    onClick={handleRedo}
+                    disabled={history.future.length === 0}
+                    className="px-2 py-1 text-sm bg-gray-600 hover:bg-gray-500 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded transition"
+                    title="Redo (Ctrl+Shift+Z)"
+                  >
+                    ↷
+                  </button>
+                </div>
+              </div>
 
               <div className="space-y-4">
-                {/* Design Selector Buttons */}
-                {(design1.image || design2.image) && (
-                  <div className="flex gap-2">
-                    {design1.image && (
-                      <button
-                        onClick={() => setActiveDesignNumber(1)}
-                        className={`flex-1 py-2 px-3 rounded text-sm font-medium transition ${
-                          activeDesignNumber === 1
-                            ? 'bg-green-600 text-white ring-2 ring-green-400'
-                            : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
-                        }`}
-                      >
-                        Design 1
-                      </button>
-                    )}
-                    {design2.image && (
-                      <button
-                        onClick={() => setActiveDesignNumber(2)}
-                        className={`flex-1 py-2 px-3 rounded text-sm font-medium transition ${
-                          activeDesignNumber === 2
-                            ? 'bg-orange-600 text-white ring-2 ring-orange-400'
-                            : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
-                        }`}
-                      >
-                        Design 2
-                      </button>
-                    )}
-                  </div>
-                )}
+                {/* Layer Selector Buttons */}
+                <div className="flex flex-wrap gap-2">
+                  {layers.filter(layer => layer.image).map(layer => (
+                    <button
+                      key={layer.id}
+                      onClick={() => setActiveLayerId(layer.id)}
+                      className={`flex-1 py-2 px-3 rounded text-sm font-medium transition truncate ${
+                        activeLayerId === layer.id
+                          ? getLayerColor(layer.order).activeClass
+                          : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                      }`}
+                    >
+                      {layer.name}
+                    </button>
+                  ))}
+                </div>
 
                 {/* Interactive Preview Box */}
                 <InteractivePreview
                   mockupImage={mockupImage}
-                  designImage={design1.image}
-                  design2Image={design2.image}
-                  design1Transform={
-                    editMode.active && editMode.mockupIndex !== null
-                      ? getEffectiveTransform(editMode.mockupIndex, 1)
-                      : design1.transform
-                  }
-                  design2Transform={
-                    editMode.active && editMode.mockupIndex !== null
-                      ? getEffectiveTransform(editMode.mockupIndex, 2)
-                      : design2.transform
-                  }
-                  design1BlendMode={
-                    editMode.active && editMode.mockupIndex !== null
-                      ? getEffectiveBlendMode(editMode.mockupIndex, 1)
-                      : design1.blendMode
-                  }
-                  design2BlendMode={
+                  layers={
                     editMode.active && editMode.mockupIndex !== null
-                      ? getEffectiveBlendMode(editMode.mockupIndex, 2)
-                      : design2.blendMode
+                      ? getEffectiveLayers(editMode.mockupIndex)
+                      : layers
                   }
-                  activeLayer={activeDesignNumber === 1 ? 'design1' : 'design2'}
-                  onDesign1TransformChange={updateDesign1Transform}
-                  onDesign2TransformChange={updateDesign2Transform}
+                  activeLayerId={activeLayerId}
+                  printArea={mockupFiles[selectedMockupIndex]?.printArea ?? null}
+                  displacementMap={getMockupDisplacementMap(selectedMockupIndex)}
+                  displacementStrength={displacementStrength}
+                  snapSettings={snapSettings}
+                  onLayerTransformChange={updateLayerTransform}
                 />
 
+                {/* Numeric Inspector */}
+                {(() => {
+                  const activeImage = getActiveDesignState()?.image
+                  const mockupImg = mockupImages[selectedMockupIndex]
+                  if (!activeImage || !mockupImg) return null
+                  return (
+                    <TransformInspector
+                      transform={getActiveEffectiveTransform()}
+                      imageWidth={activeImage.width}
+                      imageHeight={activeImage.height}
+                      mockupWidth={mockupImg.width}
+                      mockupHeight={mockupImg.height}
+                      printArea={mockupFiles[selectedMockupIndex]?.printArea ?? null}
+                      settings={inspectorSettings}
+                      onChange={updateActiveDesignTransform}
+                      onSettingsChange={updateInspectorSettings}
+                    />
+                  )
+                })()}
+
+                {/* Snapping */}
+                <div className="bg-gray-700 rounded-lg p-3 space-y-2">
+                  <label className="flex items-center gap-2 text-sm font-medium">
+                    <input
+                      type="checkbox"
+                      checked={snapSettings.enabled}
+                      onChange={(e) => updateSnapSettings({ enabled: e.target.checked })}
+                    />
+                    Snap to centre, print area and other layers
+                  </label>
+                  <div className="flex items-center gap-2 text-sm">
+                    <label htmlFor="snap-grid-size">Snap grid</label>
+                    <input
+                      id="snap-grid-size"
+                      type="number"
+                      min="0"
+                      value={snapSettings.gridSize}
+                      onChange={(e) => updateSnapSettings({ gridSize: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className="w-20 bg-gray-800 text-white text-sm rounded px-2 py-1 border border-gray-600"
+                    />
+                    <span className="text-xs text-gray-400">mockup px (0 = off)</span>
+                  </div>
+                  <p className="text-xs text-gray-400">Hold Ctrl/⌘ while dragging to place freely</p>
+                </div>
+
                 {/* Expand Button */}
                 <div>
                   <button
@@ -2943,6 +4263,134 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
               </div>
             </div>
 
+            {/* Text Style (text layers only) */}
+            {activeTextStyle && activeLayerId && (
+              <div>
+                <h2 className="text-xl font-semibold mb-4">Text</h2>
+                <div className="space-y-3">
+                  <textarea
+                    value={activeTextStyle.text}
+                    onChange={(e) => updateTextLayer(activeLayerId, { text: e.target.value })}
+                    rows={2}
+                    className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm"
+                    placeholder="Enter text..."
+                  />
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      value={activeTextStyle.fontFamily}
+                      onChange={(e) => updateTextLayer(activeLayerId, { fontFamily: e.target.value })}
+                      className="bg-gray-700 border border-gray-600 rounded px-2 py-2 text-sm"
+                    >
+                      {[...SYSTEM_FONTS, ...WEB_FONTS, ...customFonts].map(font => (
+                        <option key={font} value={font}>{font}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={activeTextStyle.fontWeight}
+                      onChange={(e) => updateTextLayer(activeLayerId, { fontWeight: parseInt(e.target.value) })}
+                      className="bg-gray-700 border border-gray-600 rounded px-2 py-2 text-sm"
+                    >
+                      {[100, 200, 300, 400, 500, 600, 700, 800, 900].map(weight => (
+                        <option key={weight} value={weight}>Weight {weight}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <label className="block text-xs text-gray-400">
+                    Upload font (TTF/OTF/WOFF)
+                    <input
+                      type="file"
+                      accept=".ttf,.otf,.woff,.woff2"
+                      onChange={handleFontUpload}
+                      className="mt-1 block w-full text-xs text-gray-400 file:mr-2 file:py-1 file:px-2 file:rounded file:border-0 file:text-xs file:bg-gray-600 file:text-white"
+                    />
+                  </label>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Size: {activeTextStyle.fontSize}px</label>
+                    <input
+                      type="range"
+                      min="8"
+                      max="600"
+                      value={activeTextStyle.fontSize}
+                      onChange={(e) => updateTextLayer(activeLayerId, { fontSize: parseInt(e.target.value) })}
+                      className="w-full"
+                    />
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    <label className="text-sm font-medium">Fill</label>
+                    <input
+                      type="color"
+                      value={activeTextStyle.fill}
+                      onChange={(e) => updateTextLayer(activeLayerId, { fill: e.target.value })}
+                      className="w-10 h-8 bg-transparent"
+                    />
+                    <label className="text-sm font-medium">Outline</label>
+                    <input
+                      type="color"
+                      value={activeTextStyle.strokeColor}
+                      onChange={(e) => updateTextLayer(activeLayerId, { strokeColor: e.target.value })}
+                      className="w-10 h-8 bg-transparent"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      max="50"
+                      value={activeTextStyle.strokeWidth}
+                      onChange={(e) => updateTextLayer(activeLayerId, { strokeWidth: Math.max(0, Math.min(50, parseInt(e.target.value) || 0)) })}
+                      className="w-16 px-2 py-1 text-sm bg-gray-700 border border-gray-600 rounded"
+                      title="Outline width (px)"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Letter Spacing: {activeTextStyle.letterSpacing}px</label>
+                    <input
+                      type="range"
+                      min="-20"
+                      max="100"
+                      value={activeTextStyle.letterSpacing}
+                      onChange={(e) => updateTextLayer(activeLayerId, { letterSpacing: parseInt(e.target.value) })}
+                      className="w-full"
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-2">
+                    {(['left', 'center', 'right'] as TextAlign[]).map(align => (
+                      <button
+                        key={align}
+                        onClick={() => updateTextLayer(activeLayerId, { align })}
+                        className={`py-1 px-2 rounded text-xs capitalize transition ${
+                          activeTextStyle.align === align
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                        }`}
+                      >
+                        {align}
+                      </button>
+                    ))}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Arc: {activeTextStyle.arc}°</label>
+                    <input
+                      type="range"
+                      min="-270"
+                      max="270"
+                      value={activeTextStyle.arc}
+                      onChange={(e) => updateTextLayer(activeLayerId, { arc: parseInt(e.target.value) })}
+                      className="w-full"
+                    />
+                    <p className="text-xs text-gray-400 mt-1">
+                      Positive arches up (varsity style), negative curves down • Alignment applies to straight text
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Blend Mode */}
             <div>
               <h2 className="text-xl font-semibold mb-4">Blend Mode</h2>
@@ -2998,26 +4446,134 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
               </p>
             </div>
 
+            {/* Fabric Warp */}
+            <div>
+              <h2 className="text-xl font-semibold mb-4">Fabric Warp</h2>
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    Strength: {displacementStrength === 0 ? 'Off' : `${displacementStrength}px`}
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="60"
+                    value={displacementStrength}
+                    onChange={(e) => {
+                      setDisplacementStrength(parseInt(e.target.value))
+                    }}
+                    className="w-full"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    Map for Mockup {selectedMockupIndex + 1}:{' '}
+                    <span className="text-blue-400">
+                      {mockupDisplacementMaps.has(selectedMockupIndex) ? 'Uploaded' : 'From mockup luminance'}
+                    </span>
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="file"
+                      accept="image/*"
+                      onChange={handleDisplacementMapUpload}
+                      className="flex-1 min-w-0 text-sm text-gray-400 border border-gray-600 rounded px-3 py-2 bg-gray-700 hover:bg-gray-600 cursor-pointer file:mr-4 file:py-1 file:px-3 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-blue-600 file:text-white hover:file:bg-blue-700"
+                    />
+                    {mockupDisplacementMaps.has(selectedMockupIndex) && (
+                      <button
+                        onClick={clearDisplacementMap}
+                        className="px-3 text-xs py-2 rounded transition bg-gray-600 hover:bg-gray-500 text-white"
+                        title="Derive the map from the mockup instead"
+                      >
+                        Reset
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-400 mt-2">
+                    Designs bend along folds and wrinkles in previews and exports
+                  </p>
+                </div>
+              </div>
+            </div>
+
             {/* Export */}
             <div>
               <h2 className="text-xl font-semibold mb-4">Export</h2>
               <div className="space-y-3">
                 {/* Export Button */}
                 <button
-                  onClick={handleExport}
+                  onClick={() => setShowExportModal(true)}
                   disabled={mockupImages.filter((_, i) => !hiddenMockupIndices.has(i)).length === 0}
                   className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold py-3 px-6 rounded transition"
                 >
-                  Download ZIP
+                  Download ZIP…
                 </button>
 
+                {/* Print File */}
+                <button
+                  onClick={() => setPrintExportIndex(selectedMockupIndex)}
+                  disabled={!mockupFiles[selectedMockupIndex]?.printArea || getPrintLayers(selectedMockupIndex).length === 0}
+                  className="w-full bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-semibold py-2 px-4 rounded transition"
+                  title={mockupFiles[selectedMockupIndex]?.printArea ? 'Export the design at print size' : 'Set a print area (📐) on this mockup first'}
+                >
+                  🖨️ Print File (Mockup {selectedMockupIndex + 1})
+                </button>
+
+                {/* Batch Designs */}
+                <div className="bg-gray-700 rounded-lg p-3 space-y-2">
+                  <h4 className="text-sm font-semibold">Batch Designs:</h4>
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    // @ts-ignore - webkitdirectory is not in React types but works in browsers
+                    webkitdirectory="true"
+                    directory="true"
+                    onChange={handleBatchDesignUpload}
+                    className="hidden"
+                    id="batch-design-folder"
+                  />
+                  <label
+                    htmlFor="batch-design-folder"
+                    className="block w-full text-center text-sm py-2 px-3 bg-green-600 hover:bg-green-700 text-white rounded cursor-pointer transition"
+                  >
+                    📂 Load Design Folder
+                  </label>
+                  {batchDesigns.length > 0 && (
+                    <>
+                      <p className="text-xs text-gray-400">
+                        {batchDesigns.length} design{batchDesigns.length !== 1 ? 's' : ''} × {mockupImages.filter((_, i) => !hiddenMockupIndices.has(i)).length} mockups,
+                        placed like <span className="text-blue-400">{getActiveDesignState()?.name ?? 'the active layer'}</span>
+                      </p>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={handleBatchExport}
+                          disabled={isBatchRendering || !getActiveDesignState()?.image || !!getActiveDesignState()?.text}
+                          className="flex-1 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm font-semibold py-2 px-3 rounded transition"
+                        >
+                          {isBatchRendering ? 'Rendering...' : 'Render Batch ZIP'}
+                        </button>
+                        <button
+                          onClick={() => setBatchDesigns([])}
+                          disabled={isBatchRendering}
+                          className="px-3 text-xs py-2 rounded transition bg-gray-600 hover:bg-gray-500 disabled:cursor-not-allowed text-white"
+                          title="Clear batch designs"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+
                 <div className="bg-gray-700 rounded-lg p-3">
                   <h4 className="text-sm font-semibold mb-2">Export Info:</h4>
                   <div className="text-xs text-gray-400 space-y-1">
                     <p>• {mockupImages.filter((_, i) => !hiddenMockupIndices.has(i)).length} mockup images</p>
-                    {design1.image && (
-                      <p>• Design: {design1.image.width}×{design1.image.height}px {design1.visible ? '' : '(hidden)'}</p>
-                    )}
+                    {layers.filter(layer => layer.image).map(layer => (
+                      <p key={layer.id}>• {layer.name}: {layer.image!.width}×{layer.image!.height}px {layer.visible ? '' : '(hidden)'}</p>
+                    ))}
                   </div>
                 </div>
               </div>
@@ -3043,7 +4599,7 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
               <h3 className="text-lg font-semibold mb-2">Mockup Preview</h3>
               <p className="text-sm text-gray-400">
                 {mockupImages.filter((_, i) => !hiddenMockupIndices.has(i)).length} mockup(s)
-                {design1.image && ` • Design loaded`}
+                {layers.some(layer => layer.image) && ` • ${layers.length} layer${layers.length !== 1 ? 's' : ''} loaded`}
               </p>
               <div className="mt-3">
                 <button
@@ -3072,7 +4628,6 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
                             if (mockupImages.length > 0 && mockupImages[previousSelectedIndex]) {
                               setMockupImage(mockupImages[previousSelectedIndex])
                             }
-                            setCanvasRefreshKey(prev => prev + 1)
                             toast.success('Deletion undone')
                           }
                         }
@@ -3106,12 +4661,12 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
                 <button
                   onClick={() => {
                     const idx = editMode.mockupIndex!
-                    setMockupCustomTransforms1(prev => {
+                    setMockupCustomTransforms(prev => {
                       const newMap = new Map(prev)
                       newMap.delete(idx)
                       return newMap
                     })
-                    setMockupCustomBlendModes1(prev => {
+                    setMockupCustomBlendModes(prev => {
                       const newMap = new Map(prev)
                       newMap.delete(idx)
                       return newMap
@@ -3130,179 +4685,162 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
             )}
 
             {/* Mockup grid */}
-            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4" key={`grid-${canvasRefreshKey}`}>
-              {mockupImages.map((mockupImg, index) => {
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {mockupImages.flatMap((mockupImg, index) => {
                 // Skip hidden mockups
-                if (hiddenMockupIndices.has(index)) return null
-
-                const tempCanvas = document.createElement('canvas')
-                const ctx = tempCanvas.getContext('2d')
-                if (!ctx) return null
-
-                // Create a smaller preview canvas for better performance
-                const previewSize = 400
-                const aspectRatio = mockupImg.width / mockupImg.height
-                let previewWidth = previewSize
-                let previewHeight = previewSize / aspectRatio
-                
-                if (aspectRatio > 1) {
-                  previewHeight = previewSize / aspectRatio
-                } else {
-                  previewWidth = previewSize * aspectRatio
-                }
+                if (hiddenMockupIndices.has(index)) return []
 
-                tempCanvas.width = previewWidth
-                tempCanvas.height = previewHeight
-                ctx.clearRect(0, 0, tempCanvas.width, tempCanvas.height)
-                
-                // Draw mockup scaled to preview size
-                ctx.drawImage(mockupImg, 0, 0, previewWidth, previewHeight)
-
-                // Draw design (scaled to preview with per-mockup offsets)
-                const scaleX = previewWidth / mockupImg.width
-                const scaleY = previewHeight / mockupImg.height
-
-                // Draw design 1
-                if (design1.image && design1.visible) {
-                  const pos = getEffectivePosition(index, 1)
-                  const transform = getEffectiveTransform(index, 1)
-                  const blendMode = getEffectiveBlendMode(index, 1)
-
-                  ctx.save()
-                  ctx.globalCompositeOperation = blendMode
-                  ctx.globalAlpha = transform.opacity / 100
-                  ctx.translate(pos.x * scaleX, pos.y * scaleY)
-                  ctx.rotate((transform.rotation * Math.PI) / 180)
-                  ctx.scale(transform.scale * transform.scaleX * scaleX, transform.scale * transform.scaleY * scaleY)
-                  ctx.drawImage(
-                    design1.image,
-                    -design1.image.width / 2,
-                    -design1.image.height / 2
-                  )
-                  ctx.restore()
-                }
+                // One tile per colourway (or just the original photo)
+                const colourways = mockupFiles[index]?.colourways ?? []
+                const variants: (string | null)[] = colourways.length > 0 ? colourways : [null]
 
-                // Draw design 2
-                if (design2.image && design2.visible) {
-                  const pos = getEffectivePosition(index, 2)
-                  const transform = getEffectiveTransform(index, 2)
-                  const blendMode = getEffectiveBlendMode(index, 2)
-
-                  ctx.save()
-                  ctx.globalCompositeOperation = blendMode
-                  ctx.globalAlpha = transform.opacity / 100
-                  ctx.translate(pos.x * scaleX, pos.y * scaleY)
-                  ctx.rotate((transform.rotation * Math.PI) / 180)
-                  ctx.scale(transform.scale * transform.scaleX * scaleX, transform.scale * transform.scaleY * scaleY)
-                  ctx.drawImage(
-                    design2.image,
-                    -design2.image.width / 2,
-                    -design2.image.height / 2
-                  )
-                  ctx.restore()
-                }
+                return variants.map(colour => {
+                  const variantKey = `${index}-${colour ?? 'base'}`
 
-                const isSelected = selectedMockupIndex === index
+                  // Smaller preview for better performance, re-rendered only when its inputs change
+                  const { width: previewWidth, height: previewHeight } = getFitSize(mockupImg.width, mockupImg.height, PREVIEW_SIZE, PREVIEW_SIZE)
+                  const tileKey = getTileKey(index, colour, previewWidth, previewHeight)
 
-                return (
-                  <div
-                    key={index}
-                    className={`bg-gray-700 rounded-lg p-3 transition-all duration-200 ${
-                      isSelected ? 'ring-2 ring-blue-500 bg-gray-600' : 'hover:bg-gray-600'
-                    }`}
-                  >
-                    <div className="relative">
-                      <canvas
-                        key={`mockup-${index}-${canvasRefreshKey}`}
-                        ref={(el) => {
-                          if (el) {
-                            el.width = previewWidth
-                            el.height = previewHeight
-                            const context = el.getContext('2d')
-                            if (context) {
-                              context.drawImage(tempCanvas, 0, 0)
-                            }
-                          }
-                        }}
-                        className="w-full h-auto rounded shadow-lg cursor-pointer"
-                        style={{ cursor: isDragging && dragMockupIndex === index ? 'grabbing' : 'grab' }}
-                        onMouseDown={(e) => {
-                          handleCanvasMouseDown(e, index)
-                          setSelectedMockupIndex(index)
-                        }}
-                        onMouseMove={handleCanvasMouseMove}
-                        onMouseUp={handleCanvasMouseUp}
-                        onMouseLeave={handleCanvasMouseUp}
-                      />
-                      {isSelected && (
-                        <div className="absolute top-2 right-2 bg-blue-500 text-white px-2 py-1 rounded text-xs font-semibold pointer-events-none">
-                          Selected
-                        </div>
-                      )}
-                      {!isDragging && (mockupCustomTransforms1.has(index) || mockupCustomBlendModes1.has(index)) && (
-                        <div className="absolute top-2 left-2 bg-yellow-500 text-black px-2 py-1 rounded text-xs font-semibold pointer-events-none">
-                          Edited
-                        </div>
-                      )}
-                      {isDragging && dragMockupIndex === index && (
-                        <div className="absolute top-2 left-2 bg-black bg-opacity-70 text-white px-2 py-1 rounded text-xs font-mono pointer-events-none">
-                          Moving Design
-                        </div>
-                      )}
-                    </div>
+                  const printArea = mockupFiles[index]?.printArea ?? null
 
-                    <div className="mt-3 space-y-2">
-                      <p className="text-center text-sm font-medium text-white">
-                        Mockup {index + 1}
-                      </p>
-                      <p className="text-center text-xs text-gray-400">
-                        {mockupImg.width} × {mockupImg.height}px
-                      </p>
-                      {design1.image && (
-                        <div className="flex justify-center space-x-2 text-xs">
-                          {design1.image && design1.visible && (
-                            <span className="text-green-400">✓ Design</span>
+                  const isSelected = selectedMockupIndex === index
+                  const layersOutsidePrintArea = getLayersOutsidePrintArea(
+                    layers.map(layer => ({
+                      ...layer,
+                      transform: { ...getEffectiveTransform(index, layer.id), ...getEffectivePosition(index, layer.id) }
+                    })),
+                    printArea
+                  )
+
+                  return (
+                    <div
+                      key={variantKey}
+                      className={`bg-gray-700 rounded-lg p-3 transition-all duration-200 ${
+                        isSelected ? 'ring-2 ring-blue-500 bg-gray-600' : 'hover:bg-gray-600'
+                      }`}
+                    >
+                      <div className="relative">
+                        <PreviewTile
+                          width={previewWidth}
+                          height={previewHeight}
+                          renderKey={tileKey}
+                          getBitmap={() => getTileBitmap(variantKey, tileKey, index, colour, previewWidth, previewHeight)}
+                          className="w-full h-auto rounded shadow-lg cursor-pointer"
+                          style={{ cursor: getTileCursor(index) }}
+                          onMouseDown={(e) => {
+                            handleCanvasMouseDown(e, index)
+                            setSelectedMockupIndex(index)
+                          }}
+                          onMouseMove={(e) => handleCanvasMouseMove(e, index)}
+                          onMouseUp={handleCanvasMouseUp}
+                          onMouseLeave={handleCanvasMouseUp}
+                        />
+                        {isSelected && (
+                          <canvas
+                            width={previewWidth}
+                            height={previewHeight}
+                            ref={(el) => {
+                              if (el) drawTileHandles(el, index)
+                            }}
+                            className="absolute top-0 left-0 w-full h-auto pointer-events-none"
+                          />
+                        )}
+                        {isSelected && (
+                          <div className="absolute top-2 right-2 bg-blue-500 text-white px-2 py-1 rounded text-xs font-semibold pointer-events-none">
+                            Selected
+                          </div>
+                        )}
+                        {!isDragging && (mockupCustomTransforms.has(index) || mockupCustomBlendModes.has(index)) && (
+                          <div className="absolute top-2 left-2 bg-yellow-500 text-black px-2 py-1 rounded text-xs font-semibold pointer-events-none">
+                            Edited
+                          </div>
+                        )}
+                        {isDragging && dragMockupIndex === index && (
+                          <div className="absolute top-2 left-2 bg-black bg-opacity-70 text-white px-2 py-1 rounded text-xs font-mono pointer-events-none">
+                            Moving Design
+                          </div>
+                        )}
+                        {!isDragging && layersOutsidePrintArea.length > 0 && (
+                          <div
+                            className="absolute bottom-2 left-2 bg-orange-500 text-black px-2 py-1 rounded text-xs font-semibold"
+                            title={`Outside print area: ${layersOutsidePrintArea.map(layer => layer.name).join(', ')}`}
+                          >
+                            ⚠ Exceeds print area
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="mt-3 space-y-2">
+                        <p className="text-center text-sm font-medium text-white">
+                          Mockup {index + 1}
+                          {colour && (
+                            <span className="ml-2 inline-flex items-center gap-1 text-xs text-gray-300">
+                              <span className="inline-block w-3 h-3 rounded-full border border-gray-400" style={{ backgroundColor: colour }} />
+                              {colour}
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-center text-xs text-gray-400">
+                          {mockupImg.width} × {mockupImg.height}px
+                        </p>
+                        {layers.some(layer => layer.image) && (
+                          <div className="flex flex-wrap justify-center gap-x-2 text-xs">
+                            {layers.filter(layer => layer.image && layer.visible).map(layer => (
+                              <span key={layer.id} className={getLayerColor(layer.order).textClass}>✓ {layer.name}</span>
+                            ))}
+                          </div>
+                        )}
+                        <div className="flex gap-2">
+                          {layers.some(layer => layer.image) && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                setEditModalMockupIndex(index)
+                                setEditModalOpen(true)
+                                setSelectedMockupIndex(index)
+                              }}
+                              className="flex-1 text-xs py-2 rounded transition bg-gray-600 hover:bg-gray-500 text-white"
+                            >
+                              ✏️ Edit
+                            </button>
                           )}
-                        </div>
-                      )}
-                      <div className="flex gap-2">
-                        {design1.image && (
                           <button
                             onClick={(e) => {
                               e.stopPropagation()
-                              setEditModalMockupIndex(index)
-                              setEditModalOpen(true)
-                              setSelectedMockupIndex(index)
+                              setPrintAreaModalIndex(index)
                             }}
-                            className="flex-1 text-xs py-2 rounded transition bg-gray-600 hover:bg-gray-500 text-white"
+                            className={`px-3 text-xs py-2 rounded transition text-white ${
+                              printArea ? 'bg-cyan-700 hover:bg-cyan-600' : 'bg-gray-600 hover:bg-gray-500'
+                            }`}
+                            title={printArea ? 'Edit print area' : 'Set print area'}
                           >
-                            ✏️ Edit
+                            📐
                           </button>
-                        )}
-                        <button
-                          onClick={async (e) => {
-                            e.stopPropagation()
-                            const file = mockupFiles[index]
-
-                            // Confirm deletion for database files
-                            if (file?.isFromDatabase) {
-                              if (!confirm(`Delete ${file.name}? This cannot be undone.`)) {
-                                return
+                          <button
+                            onClick={async (e) => {
+                              e.stopPropagation()
+                              const file = mockupFiles[index]
+
+                              // Confirm deletion for database files
+                              if (file?.isFromDatabase) {
+                                if (!confirm(`Delete ${file.name}? This cannot be undone.`)) {
+                                  return
+                                }
                               }
-                            }
 
-                            // Delete (from server if database file)
-                            await deleteMockup(index)
-                          }}
-                          className="px-3 text-xs py-2 rounded transition bg-red-600 hover:bg-red-700 text-white"
-                          title="Delete mockup"
-                        >
-                          🗑️
-                        </button>
+                              // Delete (from server if database file)
+                              await deleteMockup(index)
+                            }}
+                            className="px-3 text-xs py-2 rounded transition bg-red-600 hover:bg-red-700 text-white"
+                            title="Delete mockup"
+                          >
+                            🗑️
+                          </button>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                )
+                  )
+                })
               })}
             </div>
 
@@ -3320,10 +4858,75 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
                     </span>
                   </div>
                   <div>
-                    <span className="text-gray-400">Design:</span>
+                    <span className="text-gray-400">Layers:</span>
                     <span className="text-white ml-2">
-                      {design1.image ? `${design1.image.width}×${design1.image.height}px` : 'None'}
+                      {layers.length > 0 ? `${layers.filter(layer => layer.visible).length} of ${layers.length} visible` : 'None'}
+                    </span>
+                  </div>
+                </div>
+
+                {/* Colourways */}
+                <div className="mt-4 space-y-2">
+                  <h5 className="text-sm font-semibold">Colourways</h5>
+                  <div className="flex gap-2">
+                    <input
+                      type="color"
+                      value={normalizeHexColour(newColourway) ?? '#000000'}
+                      onChange={(e) => setNewColourway(e.target.value)}
+                      className="w-10 h-9 bg-gray-800 border border-gray-600 rounded cursor-pointer"
+                    />
+                    <input
+                      type="text"
+                      value={newColourway}
+                      onChange={(e) => setNewColourway(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') addColourway()
+                      }}
+                      placeholder="#1f2937"
+                      className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded px-3 py-1 text-sm font-mono"
+                    />
+                    <button
+                      onClick={addColourway}
+                      className="px-3 text-xs py-2 rounded transition bg-blue-600 hover:bg-blue-700 text-white"
+                    >
+                      ＋ Add
+                    </button>
+                  </div>
+                  {(mockupFiles[selectedMockupIndex]?.colourways ?? []).length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {mockupFiles[selectedMockupIndex]!.colourways!.map(colour => (
+                        <span key={colour} className="inline-flex items-center gap-1 bg-gray-800 rounded px-2 py-1 text-xs font-mono">
+                          <span className="inline-block w-3 h-3 rounded-full border border-gray-400" style={{ backgroundColor: colour }} />
+                          {colour}
+                          <button
+                            onClick={() => removeColourway(colour)}
+                            className="ml-1 text-gray-400 hover:text-red-400"
+                            title={`Remove ${colour}`}
+                          >
+                            ✕
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-400">No colourways • the original photo is used</p>
+                  )}
+                  <div className="flex gap-2 items-center">
+                    <span className="text-xs text-gray-400">
+                      Garment mask: {mockupGarmentMasks.has(selectedMockupIndex) ? 'Uploaded' : 'None (whole photo is recoloured)'}
                     </span>
+                    <label className="px-2 py-1 text-xs bg-gray-600 hover:bg-gray-500 rounded transition cursor-pointer">
+                      Upload
+                      <input type="file" accept="image/*" onChange={handleGarmentMaskUpload} className="hidden" />
+                    </label>
+                    {mockupGarmentMasks.has(selectedMockupIndex) && (
+                      <button
+                        onClick={clearGarmentMask}
+                        className="px-2 py-1 text-xs bg-gray-600 hover:bg-gray-500 rounded transition"
+                      >
+                        Remove
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -3336,7 +4939,7 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
           ref={canvasRef}
           className="hidden"
           onMouseDown={(e) => handleCanvasMouseDown(e, selectedMockupIndex)}
-          onMouseMove={handleCanvasMouseMove}
+          onMouseMove={(e) => handleCanvasMouseMove(e, selectedMockupIndex)}
           onMouseUp={handleCanvasMouseUp}
           onMouseLeave={handleCanvasMouseUp}
         />
@@ -3346,27 +4949,20 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
       {editModalOpen && editModalMockupIndex !== null && (
         <EditModal
           mockupImage={mockupImages[editModalMockupIndex]}
-          design1Image={design1.image}
-          design2Image={design2.image}
-          design1Transform={getEffectiveTransform(editModalMockupIndex, 1)}
-          design2Transform={getEffectiveTransform(editModalMockupIndex, 2)}
-          onDesign1TransformChange={(transform: Transform) => {
+          layers={getEffectiveLayers(editModalMockupIndex)}
+          activeLayerId={activeLayerId}
+          printArea={mockupFiles[editModalMockupIndex]?.printArea ?? null}
+          displacementMap={getMockupDisplacementMap(editModalMockupIndex)}
+          displacementStrength={displacementStrength}
+          snapSettings={snapSettings}
+          onApply={(transforms: Record<string, Transform>) => {
             const idx = editModalMockupIndex
-            setMockupCustomTransforms1(prev => {
+            recordHistory()
+            setMockupCustomTransforms(prev => {
               const newMap = new Map(prev)
-              newMap.set(idx, transform)
+              newMap.set(idx, { ...prev.get(idx), ...transforms })
               return newMap
             })
-            setCanvasRefreshKey(prev => prev + 1)
-          }}
-          onDesign2TransformChange={(transform: Transform) => {
-            // TODO: Implement Design 2 custom transforms per mockup
-            // For now, update Design 2 global transform
-            setDesign2(prev => ({
-              ...prev,
-              transform
-            }))
-            setCanvasRefreshKey(prev => prev + 1)
           }}
           onClose={() => {
             setEditModalOpen(false)
@@ -3379,40 +4975,44 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
       {expandedTransformOpen && mockupImage && (
         <ExpandedTransformModal
           mockupImage={mockupImage}
-          designImage={design1.image}
-          design2Image={design2.image}
-          design1Transform={design1.transform}
-          design2Transform={design2.transform}
-          activeLayer={activeDesignNumber === 1 ? 'design1' : 'design2'}
-          onApply={(design1Updates: Partial<Transform>, design2Updates: Partial<Transform>) => {
+          layers={layers}
+          activeLayerId={activeLayerId}
+          printArea={mockupFiles[selectedMockupIndex]?.printArea ?? null}
+          displacementMap={getMockupDisplacementMap(selectedMockupIndex)}
+          displacementStrength={displacementStrength}
+          onApply={(layerUpdates: Record<string, Partial<Transform>>) => {
             // Apply to all mockups that haven't been individually edited
             // Individually edited mockups are those in mockupCustomTransforms map
 
-            // Update Design 1 global transform if there are changes
-            if (Object.keys(design1Updates).length > 0) {
-              setDesign1(prev => ({
-                ...prev,
-                transform: { ...prev.transform, ...design1Updates }
-              }))
-            }
-
-            // Update Design 2 global transform if there are changes
-            if (Object.keys(design2Updates).length > 0) {
-              setDesign2(prev => ({
-                ...prev,
-                transform: { ...prev.transform, ...design2Updates }
-              }))
+            // Update global transform of every layer that has changes
+            if (Object.keys(layerUpdates).length > 0) {
+              recordHistory()
+              setLayers(prev => prev.map(layer =>
+                layerUpdates[layer.id]
+                  ? { ...layer, transform: { ...layer.transform, ...layerUpdates[layer.id] } }
+                  : layer
+              ))
             }
 
             // DO NOT update custom transforms - those are individually edited
             // and should be excluded from batch transform
 
-            setCanvasRefreshKey(prev => prev + 1)
           }}
           onClose={() => setExpandedTransformOpen(false)}
         />
       )}
 
+      {/* Print Area Modal */}
+      {printAreaModalIndex !== null && mockupImages[printAreaModalIndex] && (
+        <PrintAreaModal
+          mockupImage={mockupImages[printAreaModalIndex]}
+          mockupName={mockupFiles[printAreaModalIndex]?.name ?? `Mockup ${printAreaModalIndex + 1}`}
+          printArea={mockupFiles[printAreaModalIndex]?.printArea ?? null}
+          onSave={(printArea) => updatePrintArea(printAreaModalIndex, printArea)}
+          onClose={() => setPrintAreaModalIndex(null)}
+        />
+      )}
+
       {/* Mockup Modal */}
       {showMockupModal && (
         <MockupModal
@@ -3422,11 +5022,56 @@ function MockupCanvas({ userId }: MockupCanvasProps) {
         />
       )}
 
+      {/* Export Modal */}
+      {showExportModal && (
+        <ExportModal
+          settings={exportSettings}
+          mockupCount={mockupImages.reduce((count, _, i) =>
+            hiddenMockupIndices.has(i) ? count : count + Math.max(1, mockupFiles[i]?.colourways?.length ?? 0), 0)}
+          sampleSize={mockupImages.find((_, i) => !hiddenMockupIndices.has(i)) ?? null}
+          getFileNames={(settings, preset) => getExportFileNames(settings, preset)}
+          onExport={handleExport}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
+
+      {/* Print File Modal */}
+      {printExportIndex !== null && mockupFiles[printExportIndex]?.printArea && (
+        <PrintExportModal
+          mockupName={mockupFiles[printExportIndex].name}
+          printArea={mockupFiles[printExportIndex].printArea!}
+          layers={getPrintLayers(printExportIndex)}
+          isExporting={isPrintExporting}
+          onExport={handlePrintExport}
+          onClose={() => setPrintExportIndex(null)}
+        />
+      )}
+
+      {/* Projects Modal */}
+      {showProjectsModal && (
+        <ProjectsModal
+          apiBase={API_BASE}
+          currentProjectId={currentProject?.id ?? null}
+          onOpen={openProject}
+          onDeleted={(projectId) => {
+            if (currentProject?.id === projectId) setCurrentProject(null)
+          }}
+          onClose={() => setShowProjectsModal(false)}
+        />
+      )}
+
+      {/* API Keys Modal */}
+      {showApiKeysModal && (
+        <ApiKeysModal
+          apiBase={API_BASE}
+          onClose={() => setShowApiKeysModal(false)}
+        />
+      )}
+
       {/* Manager Modal */}
       {showManagerModal && (
         <ManagerModal
           mockupFiles={managerFiles}
-          userId={userId}
           apiBase={API_BASE}
           onClose={handleManagerClose}
           onDeleted={handleManagerDeleted}
@@ -2,17 +2,20 @@ import { useState } from 'react'
 import { createPortal } from 'react-dom'
 import { ImageFile } from './ImageUploader'
 
-interface MockupModalProps {
-  mockupFiles: ImageFile[]
+// A file shown in a file grid: `url` may be a thumbnail rather than the original
+export type ThumbnailFile = Pick<ImageFile, 'id' | 'url' | 'name' | 'source' | 'isFromDatabase'>
+
+interface MockupModalProps<T extends ThumbnailFile> {
+  mockupFiles: T[]
   onClose: () => void
-  onNext: (remainingFiles: ImageFile[]) => void
+  onNext: (remainingFiles: T[]) => void
 }
 
-export default function MockupModal({
+export default function MockupModal<T extends ThumbnailFile>({
   mockupFiles,
   onClose,
   onNext
-}: MockupModalProps) {
+}: MockupModalProps<T>) {
   const [filesToDelete, setFilesToDelete] = useState<Set<string>>(new Set())
 
   const handleDeleteClick = (fileId: string) => {
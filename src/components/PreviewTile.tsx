@@ -0,0 +1,54 @@
+import { useState, useEffect, useRef, CanvasHTMLAttributes } from 'react'
+import { TileBitmap } from '../utils/tileCache'
+
+// Tiles this close to the viewport are drawn before they scroll into view
+const TILE_ROOT_MARGIN = '300px'
+
+interface PreviewTileProps extends CanvasHTMLAttributes<HTMLCanvasElement> {
+  width: number
+  height: number
+  renderKey: string // Changes whenever the tile's content would change
+  getBitmap: () => TileBitmap | null // Cached render, or a fresh one on a cache miss
+}
+
+// Canvas that paints a cached preview, only while it is on (or near) the screen
+export default function PreviewTile({ width, height, renderKey, getBitmap, ...canvasProps }: PreviewTileProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [isNearViewport, setIsNearViewport] = useState(false)
+
+  // Latest callback without repainting on every parent render
+  const getBitmapRef = useRef(getBitmap)
+  getBitmapRef.current = getBitmap
+
+  // Track visibility; without IntersectionObserver every tile counts as visible
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    if (typeof IntersectionObserver === 'undefined') {
+      setIsNearViewport(true)
+      return
+    }
+
+    const observer = new IntersectionObserver(
+      ([entry]) => setIsNearViewport(entry.isIntersecting),
+      { rootMargin: TILE_ROOT_MARGIN }
+    )
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [])
+
+  // Paint when the tile comes into view or its content changes
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !isNearViewport) return
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    const bitmap = getBitmapRef.current()
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+    if (bitmap) ctx.drawImage(bitmap, 0, 0)
+  }, [isNearViewport, renderKey, width, height])
+
+  return <canvas ref={canvasRef} width={width} height={height} {...canvasProps} />
+}
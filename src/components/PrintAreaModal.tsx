@@ -0,0 +1,281 @@
+import { useState, useRef, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { PrintArea, Point, drawPrintAreaOverlay } from '../utils/printArea'
+
+interface PrintAreaModalProps {
+  mockupImage: HTMLImageElement
+  mockupName: string
+  printArea: PrintArea | null
+  onSave: (printArea: PrintArea | null) => void
+  onClose: () => void
+}
+
+type Tool = 'rect' | 'polygon'
+
+// Distance (in screen px) within which clicking the first point closes a polygon
+const CLOSE_DISTANCE = 10
+
+export default function PrintAreaModal({
+  mockupImage,
+  mockupName,
+  printArea,
+  onSave,
+  onClose
+}: PrintAreaModalProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [tool, setTool] = useState<Tool>(printArea?.type === 'polygon' ? 'polygon' : 'rect')
+  const [draft, setDraft] = useState<PrintArea | null>(printArea)
+  const [rectStart, setRectStart] = useState<Point | null>(null)
+  const [polygonPoints, setPolygonPoints] = useState<Point[]>([])
+  const [hoverPoint, setHoverPoint] = useState<Point | null>(null)
+
+  // Block body scroll when modal is open
+  useEffect(() => {
+    document.body.style.overflow = 'hidden'
+    return () => {
+      document.body.style.overflow = ''
+    }
+  }, [])
+
+  // Convert a mouse event to mockup pixel coordinates
+  const toMockupPoint = (e: React.MouseEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: Math.max(0, Math.min(mockupImage.width, (e.clientX - rect.left) * (mockupImage.width / rect.width))),
+      y: Math.max(0, Math.min(mockupImage.height, (e.clientY - rect.top) * (mockupImage.height / rect.height)))
+    }
+  }
+
+  const finishPolygon = () => {
+    if (polygonPoints.length >= 3) {
+      setDraft({ type: 'polygon', points: polygonPoints })
+    }
+    setPolygonPoints([])
+    setHoverPoint(null)
+  }
+
+  // Handle keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter' && polygonPoints.length > 0) {
+        e.preventDefault()
+        finishPolygon()
+        return
+      }
+
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        // First Escape cancels an unfinished polygon, second closes the modal
+        if (polygonPoints.length > 0) {
+          setPolygonPoints([])
+          setHoverPoint(null)
+        } else {
+          onClose()
+        }
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [polygonPoints, onClose])
+
+  // Draw mockup with current print area
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const ctx = canvas.getContext('2d', { alpha: false })
+    if (!ctx) return
+
+    // Use 80% of viewport width and 70% of its height for canvas size
+    const maxWidth = window.innerWidth * 0.8
+    const maxHeight = window.innerHeight * 0.7
+    const aspectRatio = mockupImage.width / mockupImage.height
+
+    let width = maxWidth
+    let height = maxWidth / aspectRatio
+
+    if (height > maxHeight) {
+      height = maxHeight
+      width = maxHeight * aspectRatio
+    }
+
+    canvas.width = width
+    canvas.height = height
+
+    const scaleX = width / mockupImage.width
+    const scaleY = height / mockupImage.height
+
+    ctx.clearRect(0, 0, width, height)
+    ctx.drawImage(mockupImage, 0, 0, width, height)
+
+    if (draft && polygonPoints.length === 0) {
+      drawPrintAreaOverlay(ctx, draft, scaleX, scaleY)
+    }
+
+    // Unfinished polygon
+    if (polygonPoints.length > 0) {
+      ctx.save()
+      ctx.strokeStyle = '#22d3ee'
+      ctx.fillStyle = '#22d3ee'
+      ctx.lineWidth = 2
+      ctx.beginPath()
+      polygonPoints.forEach((point, i) => {
+        if (i === 0) ctx.moveTo(point.x * scaleX, point.y * scaleY)
+        else ctx.lineTo(point.x * scaleX, point.y * scaleY)
+      })
+      if (hoverPoint) {
+        ctx.lineTo(hoverPoint.x * scaleX, hoverPoint.y * scaleY)
+      }
+      ctx.stroke()
+      polygonPoints.forEach(point => {
+        ctx.beginPath()
+        ctx.arc(point.x * scaleX, point.y * scaleY, 4, 0, Math.PI * 2)
+        ctx.fill()
+      })
+      ctx.restore()
+    }
+  }, [mockupImage, draft, polygonPoints, hoverPoint])
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = toMockupPoint(e)
+
+    if (tool === 'rect') {
+      setRectStart(point)
+      setDraft(null)
+    } else {
+      // Clicking near the first point closes the polygon
+      if (polygonPoints.length >= 3) {
+        const rect = e.currentTarget.getBoundingClientRect()
+        const screenScale = rect.width / mockupImage.width
+        const first = polygonPoints[0]
+        const distance = Math.hypot((point.x - first.x) * screenScale, (point.y - first.y) * screenScale)
+        if (distance <= CLOSE_DISTANCE) {
+          finishPolygon()
+          return
+        }
+      }
+      setPolygonPoints(prev => [...prev, point])
+    }
+    e.preventDefault()
+  }
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = toMockupPoint(e)
+
+    if (tool === 'rect' && rectStart) {
+      setDraft({
+        type: 'rect',
+        x: Math.min(rectStart.x, point.x),
+        y: Math.min(rectStart.y, point.y),
+        width: Math.abs(point.x - rectStart.x),
+        height: Math.abs(point.y - rectStart.y)
+      })
+    } else if (tool === 'polygon' && polygonPoints.length > 0) {
+      setHoverPoint(point)
+    }
+  }
+
+  const handleMouseUp = () => {
+    if (rectStart && draft?.type === 'rect' && (draft.width < 2 || draft.height < 2)) {
+      // Ignore accidental clicks
+      setDraft(null)
+    }
+    setRectStart(null)
+  }
+
+  const handleToolChange = (newTool: Tool) => {
+    setTool(newTool)
+    setPolygonPoints([])
+    setHoverPoint(null)
+    setRectStart(null)
+  }
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black bg-opacity-90 flex items-center justify-center p-4"
+      style={{ zIndex: 9999 }}
+      onClick={onClose}
+    >
+      <div
+        className="relative max-w-full max-h-full flex flex-col items-center"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header with tools, Save and Close buttons */}
+        <div className="mb-4 flex items-center gap-4 bg-gray-800 px-6 py-3 rounded-lg w-full">
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleToolChange('rect')}
+              className={`px-3 py-2 text-sm font-medium rounded transition ${
+                tool === 'rect' ? 'bg-cyan-600 text-white ring-2 ring-cyan-400' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+              }`}
+            >
+              Rectangle
+            </button>
+            <button
+              onClick={() => handleToolChange('polygon')}
+              className={`px-3 py-2 text-sm font-medium rounded transition ${
+                tool === 'polygon' ? 'bg-cyan-600 text-white ring-2 ring-cyan-400' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+              }`}
+            >
+              Polygon
+            </button>
+          </div>
+
+          <div className="text-sm text-gray-300 flex-1 truncate" title={mockupName}>
+            Print area • {mockupName}
+          </div>
+          <button
+            onClick={() => {
+              setDraft(null)
+              setPolygonPoints([])
+            }}
+            className="px-4 py-2 text-sm bg-red-600 hover:bg-red-700 text-white rounded transition"
+          >
+            Clear
+          </button>
+          <button
+            onClick={() => {
+              onSave(draft)
+              onClose()
+            }}
+            disabled={polygonPoints.length > 0}
+            className="px-4 py-2 text-sm bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded transition"
+          >
+            Save
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm bg-gray-600 hover:bg-gray-700 text-white rounded transition"
+            title="Close without saving (Esc)"
+          >
+            Close
+          </button>
+        </div>
+
+        {/* Canvas */}
+        <div className="relative bg-gray-900 rounded-lg overflow-visible shadow-2xl">
+          <canvas
+            ref={canvasRef}
+            className="max-w-full max-h-full cursor-crosshair"
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+          />
+        </div>
+
+        {/* Instructions */}
+        <p className="mt-4 text-xs text-gray-400 text-center max-w-md">
+          {tool === 'rect'
+            ? 'Drag to draw the printable rectangle'
+            : 'Click to add points • Click the first point or press Enter to close • Esc = cancel shape'}
+        </p>
+        <p className="text-xs text-gray-400 text-center max-w-md">
+          Designs are clipped to this area on every preview and export
+        </p>
+      </div>
+    </div>,
+    document.body
+  )
+}
@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { PrintArea } from '../utils/printArea'
+import {
+  PrintUnit,
+  MAX_PRINT_SIDE,
+  toInches,
+  fromInches,
+  getPrintAreaBounds,
+  getPrintPixelSize,
+  getPrintMapping,
+  getLayerEffectiveDpi,
+  isLowResolution,
+} from '../utils/printExport'
+
+export interface PrintExportOptions {
+  widthInches: number
+  heightInches: number
+  dpi: number
+}
+
+interface PrintLayerInfo {
+  id: string
+  name: string
+  transform: { scale: number; scaleX: number; scaleY: number }
+}
+
+interface PrintExportModalProps {
+  mockupName: string
+  printArea: PrintArea
+  layers: PrintLayerInfo[] // Visible image layers of the mockup, with their effective transforms
+  isExporting: boolean
+  onExport: (options: PrintExportOptions) => void
+  onClose: () => void
+}
+
+const DPI_PRESETS = [150, 200, 300]
+
+// Round a displayed length to 2 decimals
+const roundLength = (value: number) => Math.round(value * 100) / 100
+
+export default function PrintExportModal({
+  mockupName,
+  printArea,
+  layers,
+  isExporting,
+  onExport,
+  onClose
+}: PrintExportModalProps) {
+  const bounds = getPrintAreaBounds(printArea)
+  const aspect = bounds.height / bounds.width
+
+  const [unit, setUnit] = useState<PrintUnit>('in')
+  const [widthInches, setWidthInches] = useState(12)
+  const [heightInches, setHeightInches] = useState(roundLength(12 * aspect))
+  const [keepAspect, setKeepAspect] = useState(true)
+  const [dpi, setDpi] = useState(300)
+
+  // Block body scroll when modal is open
+  useEffect(() => {
+    document.body.style.overflow = 'hidden'
+    return () => {
+      document.body.style.overflow = ''
+    }
+  }, [])
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const handleWidthChange = (value: number) => {
+    const inches = toInches(value, unit)
+    setWidthInches(inches)
+    if (keepAspect) setHeightInches(inches * aspect)
+  }
+
+  const handleHeightChange = (value: number) => {
+    const inches = toInches(value, unit)
+    setHeightInches(inches)
+    if (keepAspect) setWidthInches(inches / aspect)
+  }
+
+  const isValid = widthInches > 0 && heightInches > 0 && dpi > 0
+  const pixelSize = getPrintPixelSize(widthInches, heightInches, dpi)
+  const isTooLarge = pixelSize.width > MAX_PRINT_SIDE || pixelSize.height > MAX_PRINT_SIDE
+  const mapping = getPrintMapping(bounds, pixelSize.width, pixelSize.height)
+  const layerResolutions = layers.map(layer => ({
+    ...layer,
+    effectiveDpi: getLayerEffectiveDpi(layer.transform, mapping, dpi)
+  }))
+  const lowResolutionLayers = layerResolutions.filter(layer => isLowResolution(layer.effectiveDpi, dpi))
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-700">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-bold text-white">Print File</h2>
+            <p className="text-gray-400 text-sm mt-1 truncate" title={mockupName}>
+              Design cropped to the print area of {mockupName}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition text-2xl font-bold w-10 h-10 flex items-center justify-center rounded hover:bg-gray-700"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {/* Physical Size */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium">Print size</label>
+              <div className="flex gap-1">
+                {(['in', 'cm'] as PrintUnit[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setUnit(option)}
+                    className={`px-3 py-1 text-xs rounded transition ${
+                      unit === option ? 'bg-purple-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={roundLength(fromInches(widthInches, unit))}
+                onChange={(e) => handleWidthChange(parseFloat(e.target.value) || 0)}
+                className="w-full bg-gray-700 text-white text-sm rounded px-3 py-2 border border-gray-600"
+              />
+              <span className="text-gray-400">×</span>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={roundLength(fromInches(heightInches, unit))}
+                onChange={(e) => handleHeightChange(parseFloat(e.target.value) || 0)}
+                className="w-full bg-gray-700 text-white text-sm rounded px-3 py-2 border border-gray-600"
+              />
+              <span className="text-gray-400 text-sm">{unit}</span>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-300 mt-2">
+              <input
+                type="checkbox"
+                checked={keepAspect}
+                onChange={(e) => {
+                  setKeepAspect(e.target.checked)
+                  if (e.target.checked) setHeightInches(widthInches * aspect)
+                }}
+              />
+              Keep print area proportions ({Math.round(bounds.width)}×{Math.round(bounds.height)} mockup px)
+            </label>
+          </div>
+
+          {/* DPI */}
+          <div>
+            <label className="block text-sm font-medium mb-2">Resolution</label>
+            <div className="flex items-center gap-2">
+              {DPI_PRESETS.map(preset => (
+                <button
+                  key={preset}
+                  onClick={() => setDpi(preset)}
+                  className={`px-3 py-2 text-sm rounded transition ${
+                    dpi === preset ? 'bg-purple-600 text-white ring-2 ring-purple-400' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                  }`}
+                >
+                  {preset}
+                </button>
+              ))}
+              <input
+                type="number"
+                min="1"
+                value={dpi}
+                onChange={(e) => setDpi(parseInt(e.target.value) || 0)}
+                className="w-24 bg-gray-700 text-white text-sm rounded px-3 py-2 border border-gray-600"
+              />
+              <span className="text-gray-400 text-sm">DPI</span>
+            </div>
+          </div>
+
+          {/* Output Info */}
+          <div className="bg-gray-700 rounded-lg p-3 text-xs space-y-1">
+            <p className="text-gray-300">
+              Output: <span className="text-white">{pixelSize.width}×{pixelSize.height}px</span> transparent PNG at {dpi} DPI
+            </p>
+            {isTooLarge && (
+              <p className="text-red-400">Too large - browsers cannot create images over {MAX_PRINT_SIDE}px per side</p>
+            )}
+            {layerResolutions.map(layer => (
+              <p key={layer.id} className={isLowResolution(layer.effectiveDpi, dpi) ? 'text-yellow-400' : 'text-gray-400'}>
+                {isLowResolution(layer.effectiveDpi, dpi) ? '⚠' : '✓'} {layer.name}: {Math.round(layer.effectiveDpi)} DPI effective
+              </p>
+            ))}
+            {lowResolutionLayers.length > 0 && (
+              <p className="text-yellow-400">
+                Source resolution is insufficient for this size - the print may look soft or pixelated
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onExport({ widthInches, heightInches, dpi })}
+            disabled={!isValid || isTooLarge || isExporting || layers.length === 0}
+            className="px-6 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded transition"
+          >
+            {isExporting ? 'Rendering...' : 'Download PNG'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
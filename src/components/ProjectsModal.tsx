@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { authFetch } from '../utils/auth'
+
+export interface ProjectSummary {
+  id: number
+  name: string
+  createdAt: string
+  updatedAt: string
+}
+
+interface ProjectsModalProps {
+  apiBase: string
+  currentProjectId: number | null
+  onOpen: (project: ProjectSummary) => void
+  onDeleted: (projectId: number) => void
+  onClose: () => void
+}
+
+export default function ProjectsModal({
+  apiBase,
+  currentProjectId,
+  onOpen,
+  onDeleted,
+  onClose
+}: ProjectsModalProps) {
+  const [projects, setProjects] = useState<ProjectSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyProjectId, setBusyProjectId] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadProjects = async () => {
+    try {
+      const response = await authFetch(`${apiBase}/projects`)
+      if (!response.ok) {
+        throw new Error(`Failed to load projects: ${response.status}`)
+      }
+      setProjects(await response.json())
+      setError(null)
+    } catch (err) {
+      console.error('Error loading projects:', err)
+      setError('Failed to load projects')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadProjects()
+  }, [apiBase])
+
+  const handleDuplicate = async (project: ProjectSummary) => {
+    setBusyProjectId(project.id)
+    try {
+      const response = await authFetch(`${apiBase}/projects/${project.id}/duplicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to duplicate project: ${response.status}`)
+      }
+      await loadProjects()
+    } catch (err) {
+      console.error('Error duplicating project:', err)
+      setError(`Failed to duplicate "${project.name}"`)
+    } finally {
+      setBusyProjectId(null)
+    }
+  }
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!confirm(`Delete project "${project.name}"? This cannot be undone.`)) return
+
+    setBusyProjectId(project.id)
+    try {
+      const response = await authFetch(`${apiBase}/projects/${project.id}`, {
+        method: 'DELETE'
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to delete project: ${response.status}`)
+      }
+      setProjects(prev => prev.filter(p => p.id !== project.id))
+      onDeleted(project.id)
+    } catch (err) {
+      console.error('Error deleting project:', err)
+      setError(`Failed to delete "${project.name}"`)
+    } finally {
+      setBusyProjectId(null)
+    }
+  }
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-700">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Projects</h2>
+            <p className="text-gray-400 text-sm mt-1">
+              {isLoading
+                ? 'Loading...'
+                : `${projects.length} project${projects.length !== 1 ? 's' : ''}`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition text-2xl font-bold w-10 h-10 flex items-center justify-center rounded hover:bg-gray-700"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-2">
+          {error && (
+            <p className="text-sm text-red-400">{error}</p>
+          )}
+          {!isLoading && projects.length === 0 ? (
+            <div className="text-center text-gray-400 py-12">
+              <p className="text-xl font-semibold mb-2">No saved projects</p>
+              <p className="text-sm">Use "Save Project" to store the current scene</p>
+            </div>
+          ) : (
+            projects.map(project => (
+              <div
+                key={project.id}
+                className={`flex items-center gap-3 rounded-lg p-3 border-2 transition ${
+                  project.id === currentProjectId ? 'border-blue-500 bg-gray-700' : 'border-gray-700 hover:border-gray-500'
+                }`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-white font-medium truncate" title={project.name}>
+                    {project.name}
+                    {project.id === currentProjectId && <span className="ml-2 text-xs text-blue-400">(open)</span>}
+                  </p>
+                  <p className="text-gray-400 text-xs">
+                    Updated {new Date(project.updatedAt.replace(' ', 'T') + 'Z').toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onOpen(project)}
+                  disabled={busyProjectId !== null}
+                  className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded transition"
+                >
+                  Open
+                </button>
+                <button
+                  onClick={() => handleDuplicate(project)}
+                  disabled={busyProjectId !== null}
+                  className="px-3 py-2 text-sm bg-gray-600 hover:bg-gray-500 disabled:cursor-not-allowed text-white rounded transition"
+                  title="Duplicate project"
+                >
+                  ⧉
+                </button>
+                <button
+                  onClick={() => handleDelete(project)}
+                  disabled={busyProjectId !== null}
+                  className="px-3 py-2 text-sm bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded transition"
+                  title="Delete project"
+                >
+                  🗑️
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
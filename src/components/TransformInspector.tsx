@@ -0,0 +1,211 @@
+import { useState } from 'react'
+import { PrintArea, LayerPlacement } from '../utils/printArea'
+import {
+  InspectorSettings,
+  InspectorUnit,
+  INSPECTOR_UNITS,
+  getUnitFrame,
+  roundUnitValue,
+} from '../utils/inspector'
+
+type InspectorTransform = LayerPlacement & { opacity: number }
+
+interface TransformInspectorProps {
+  transform: InspectorTransform // Effective transform of the active layer
+  imageWidth: number // Active layer's image size in px
+  imageHeight: number
+  mockupWidth: number // Mockup the values are measured on
+  mockupHeight: number
+  printArea: PrintArea | null
+  settings: InspectorSettings
+  onChange: (updates: Partial<InspectorTransform>) => void
+  onSettingsChange: (updates: Partial<InspectorSettings>) => void
+}
+
+// Same limits as the sliders and on-canvas handles
+const MIN_AXIS_SCALE = 0.1
+const MAX_AXIS_SCALE = 3
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+interface NumberFieldProps {
+  label: string
+  value: number
+  suffix: string
+  step?: number
+  onCommit: (value: number) => void
+}
+
+// Number input that keeps what is typed while focused, and applies every valid value
+function NumberField({ label, value, suffix, step = 1, onCommit }: NumberFieldProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  return (
+    <label className="flex items-center gap-1 text-xs">
+      <span className="w-14 text-gray-400">{label}</span>
+      <input
+        type="number"
+        step={step}
+        value={draft ?? String(value)}
+        onFocus={() => setDraft(String(value))}
+        onBlur={() => setDraft(null)}
+        onChange={(e) => {
+          setDraft(e.target.value)
+          const parsed = parseFloat(e.target.value)
+          if (isFinite(parsed)) onCommit(parsed)
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur()
+        }}
+        className="w-full min-w-0 bg-gray-800 text-white text-sm rounded px-2 py-1 border border-gray-600"
+      />
+      <span className="w-5 text-gray-400">{suffix}</span>
+    </label>
+  )
+}
+
+// Numeric position, size, rotation, stretch and opacity fields for the active layer
+export default function TransformInspector({
+  transform,
+  imageWidth,
+  imageHeight,
+  mockupWidth,
+  mockupHeight,
+  printArea,
+  settings,
+  onChange,
+  onSettingsChange
+}: TransformInspectorProps) {
+  // Inches fall back to px until the mockup has a print area
+  const unit: InspectorUnit = settings.unit === 'in' && !printArea ? 'px' : settings.unit
+  const frame = getUnitFrame(unit, mockupWidth, mockupHeight, printArea, settings.printWidthInches)
+    ?? { scaleX: 1, scaleY: 1, originX: 0, originY: 0 }
+  const unitStep = unit === 'px' ? 1 : 0.1
+
+  const width = imageWidth * transform.scale * transform.scaleX
+  const height = imageHeight * transform.scale * transform.scaleY
+
+  // Width and height stretch the layer (scaleX/scaleY) at its current uniform scale
+  const setSize = (axis: 'x' | 'y', value: number) => {
+    const unscaled = (axis === 'x' ? imageWidth : imageHeight) * transform.scale
+    if (unscaled <= 0) return
+    const stretch = clamp((value * (axis === 'x' ? frame.scaleX : frame.scaleY)) / unscaled, MIN_AXIS_SCALE, MAX_AXIS_SCALE)
+    onChange(axis === 'x' ? { scaleX: stretch } : { scaleY: stretch })
+  }
+
+  return (
+    <div className="bg-gray-700 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Inspector</span>
+        <div className="flex gap-1">
+          {INSPECTOR_UNITS.map(option => (
+            <button
+              key={option}
+              onClick={() => onSettingsChange({ unit: option })}
+              disabled={option === 'in' && !printArea}
+              className={`px-2 py-0.5 text-xs rounded transition disabled:opacity-40 disabled:cursor-not-allowed ${
+                unit === option ? 'bg-blue-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+              }`}
+              title={option === 'in' && !printArea ? 'Define a print area to use inches' : undefined}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField
+          label="X"
+          value={roundUnitValue((transform.x - frame.originX) / frame.scaleX, unit)}
+          suffix={unit}
+          step={unitStep}
+          onCommit={(value) => onChange({ x: frame.originX + value * frame.scaleX })}
+        />
+        <NumberField
+          label="Y"
+          value={roundUnitValue((transform.y - frame.originY) / frame.scaleY, unit)}
+          suffix={unit}
+          step={unitStep}
+          onCommit={(value) => onChange({ y: frame.originY + value * frame.scaleY })}
+        />
+        <NumberField
+          label="Width"
+          value={roundUnitValue(width / frame.scaleX, unit)}
+          suffix={unit}
+          step={unitStep}
+          onCommit={(value) => setSize('x', value)}
+        />
+        <NumberField
+          label="Height"
+          value={roundUnitValue(height / frame.scaleY, unit)}
+          suffix={unit}
+          step={unitStep}
+          onCommit={(value) => setSize('y', value)}
+        />
+        <NumberField
+          label="Stretch X"
+          value={Math.round(transform.scaleX * 100) / 100}
+          suffix="×"
+          step={0.01}
+          onCommit={(value) => onChange({ scaleX: clamp(value, MIN_AXIS_SCALE, MAX_AXIS_SCALE) })}
+        />
+        <NumberField
+          label="Stretch Y"
+          value={Math.round(transform.scaleY * 100) / 100}
+          suffix="×"
+          step={0.01}
+          onCommit={(value) => onChange({ scaleY: clamp(value, MIN_AXIS_SCALE, MAX_AXIS_SCALE) })}
+        />
+        <NumberField
+          label="Rotation"
+          value={transform.rotation}
+          suffix="°"
+          onCommit={(value) => onChange({ rotation: Math.round(((value % 360) + 360) % 360) })}
+        />
+        <NumberField
+          label="Opacity"
+          value={transform.opacity}
+          suffix="%"
+          onCommit={(value) => onChange({ opacity: Math.round(clamp(value, 0, 100)) })}
+        />
+      </div>
+
+      <div className="flex items-center gap-2 text-xs">
+        <label htmlFor="inspector-nudge-step" className="text-gray-400">Arrow nudge</label>
+        <input
+          id="inspector-nudge-step"
+          type="number"
+          min="0"
+          step={unitStep}
+          value={settings.nudgeStep}
+          onChange={(e) => {
+            const step = parseFloat(e.target.value)
+            if (step > 0) onSettingsChange({ nudgeStep: step })
+          }}
+          className="w-16 bg-gray-800 text-white text-sm rounded px-2 py-1 border border-gray-600"
+        />
+        <span className="text-gray-400">{unit} (Shift ×10)</span>
+      </div>
+
+      {unit === 'in' && (
+        <div className="flex items-center gap-2 text-xs">
+          <label htmlFor="inspector-print-width" className="text-gray-400">Print area width</label>
+          <input
+            id="inspector-print-width"
+            type="number"
+            min="0"
+            step="0.1"
+            value={settings.printWidthInches}
+            onChange={(e) => {
+              const inches = parseFloat(e.target.value)
+              if (inches > 0) onSettingsChange({ printWidthInches: inches })
+            }}
+            className="w-16 bg-gray-800 text-white text-sm rounded px-2 py-1 border border-gray-600"
+          />
+          <span className="text-gray-400">in</span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+// Auth utilities: the session token issued by the host platform, sent with every API request
+
+const TOKEN_PARAM = 'token'
+const STORAGE_KEY = 'auth_token'
+
+let sessionToken: string | null = null
+
+/**
+ * Token from the `token` URL parameter (removed from the address bar and kept for this tab),
+ * or the one stored earlier in the session
+ */
+export const initSessionToken = (): string | null => {
+  const url = new URL(window.location.href)
+  const urlToken = url.searchParams.get(TOKEN_PARAM)
+
+  try {
+    if (urlToken) {
+      sessionStorage.setItem(STORAGE_KEY, urlToken)
+      url.searchParams.delete(TOKEN_PARAM)
+      window.history.replaceState(window.history.state, '', url.toString())
+    }
+    sessionToken = urlToken || sessionStorage.getItem(STORAGE_KEY)
+  } catch (error) {
+    console.error('Error storing session token:', error)
+    sessionToken = urlToken
+  }
+
+  return sessionToken
+}
+
+/**
+ * User id (`sub`) in the token, for display only: the server verifies the token and
+ * decides which user a request acts for
+ */
+export const getTokenUserId = (token: string): string | null => {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')))
+    return typeof payload.sub === 'string' ? payload.sub : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * fetch() with the session token as a bearer Authorization header
+ */
+export const authFetch = (input: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers)
+  if (sessionToken) headers.set('Authorization', `Bearer ${sessionToken}`)
+  return fetch(input, { ...init, headers })
+}
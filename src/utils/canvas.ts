@@ -0,0 +1,32 @@
+// Canvas utilities: 2D contexts that work on the page, inside Web Workers and in the Node renderer
+
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+// Anything drawImage accepts that also knows its size
+export type ImageSourceWithSize = CanvasImageSource & { width: number; height: number }
+
+// Creates canvases where there is neither a DOM nor OffscreenCanvas (render.js registers @napi-rs/canvas)
+type CanvasFactory = (width: number, height: number) => OffscreenCanvas
+
+let canvasFactory: CanvasFactory | null = null
+
+export const setCanvasFactory = (factory: CanvasFactory | null): void => {
+  canvasFactory = factory
+}
+
+/**
+ * Create a canvas and its 2D context: a DOM canvas on the page, an OffscreenCanvas in workers,
+ * or the registered factory's canvas
+ */
+export const createCanvas2D = (width: number, height: number, options?: CanvasRenderingContext2DSettings): Canvas2D | null => {
+  if (canvasFactory) {
+    return canvasFactory(width, height).getContext('2d', options)
+  }
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height).getContext('2d', options)
+  }
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  return canvas.getContext('2d', options)
+}
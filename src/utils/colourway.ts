@@ -0,0 +1,106 @@
+// Colourway utilities: recolouring a mockup photo while keeping its folds and shading
+
+import { ImageSourceWithSize, createCanvas2D } from './canvas'
+
+type MockupSource = ImageSourceWithSize
+type RecolouredCanvas = HTMLCanvasElement | OffscreenCanvas
+
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i
+
+// Recoloured mockups per source image, keyed by colour and mask
+const recolourCache = new WeakMap<MockupSource, Map<string, RecolouredCanvas>>()
+const maskIds = new WeakMap<MockupSource, number>()
+const alphaMasks = new WeakMap<MockupSource, RecolouredCanvas>()
+let nextMaskId = 1
+
+/**
+ * Normalize a user-entered colour to lowercase #rrggbb (null if invalid)
+ */
+export const normalizeHexColour = (value: string): string | null => {
+  const match = value.trim().match(HEX_PATTERN)
+  if (!match) return null
+  const hex = match[1].length === 3
+    ? match[1].split('').map(c => c + c).join('')
+    : match[1]
+  return `#${hex.toLowerCase()}`
+}
+
+/**
+ * Colour as used in file names, e.g. "#1a1a1a" → "1a1a1a"
+ */
+export const getColourwaySuffix = (colour: string): string => colour.replace('#', '')
+
+/**
+ * Convert a garment mask to an alpha mask: white/opaque = garment, black/transparent = keep original
+ */
+const getAlphaMask = (mask: MockupSource): RecolouredCanvas | null => {
+  const cached = alphaMasks.get(mask)
+  if (cached) return cached
+
+  const ctx = createCanvas2D(mask.width, mask.height, { willReadFrequently: true })
+  if (!ctx) return null
+  ctx.drawImage(mask, 0, 0)
+  const imageData = ctx.getImageData(0, 0, mask.width, mask.height)
+  const data = imageData.data
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = (data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114) / 255
+    data[i] = data[i + 1] = data[i + 2] = 255
+    data[i + 3] = Math.round(data[i + 3] * luminance)
+  }
+  ctx.putImageData(imageData, 0, 0)
+
+  alphaMasks.set(mask, ctx.canvas)
+  return ctx.canvas
+}
+
+/**
+ * Recolour a mockup photo: the garment takes the colour while its luminance provides
+ * the shading (desaturate, then multiply). With a mask only the garment is recoloured.
+ */
+export const recolourMockup = (source: MockupSource, colour: string, mask: MockupSource | null = null): MockupSource => {
+  if (mask && !maskIds.has(mask)) maskIds.set(mask, nextMaskId++)
+  const key = `${colour}|${mask ? maskIds.get(mask) : 0}`
+
+  let cache = recolourCache.get(source)
+  if (!cache) {
+    cache = new Map()
+    recolourCache.set(source, cache)
+  }
+  const cached = cache.get(key)
+  if (cached) return cached
+
+  const { width, height } = source
+  const ctx = createCanvas2D(width, height)
+  if (!ctx) return source
+  const canvas = ctx.canvas
+
+  // Shading: the photo with its colour removed
+  const shadingCtx = createCanvas2D(width, height)
+  if (!shadingCtx) return canvas
+  const shading = shadingCtx.canvas
+  shadingCtx.drawImage(source, 0, 0)
+  shadingCtx.globalCompositeOperation = 'saturation'
+  shadingCtx.fillStyle = '#808080'
+  shadingCtx.fillRect(0, 0, width, height)
+
+  // Recoloured garment: colour × shading, limited to the photo's own alpha and the mask
+  const garmentCtx = createCanvas2D(width, height)
+  if (!garmentCtx) return canvas
+  const garment = garmentCtx.canvas
+  garmentCtx.fillStyle = colour
+  garmentCtx.fillRect(0, 0, width, height)
+  garmentCtx.globalCompositeOperation = 'multiply'
+  garmentCtx.drawImage(shading, 0, 0)
+  garmentCtx.globalCompositeOperation = 'destination-in'
+  garmentCtx.drawImage(source, 0, 0)
+  const alphaMask = mask && getAlphaMask(mask)
+  if (alphaMask) {
+    garmentCtx.drawImage(alphaMask, 0, 0, width, height)
+  }
+
+  ctx.drawImage(source, 0, 0)
+  ctx.drawImage(garment, 0, 0)
+
+  cache.set(key, canvas)
+  return canvas
+}
@@ -0,0 +1,216 @@
+// Compositing utilities: the one place mockups are rendered, for previews, the editor, exports, workers
+// and the server's POST /api/render (render.js runs these modules on @napi-rs/canvas)
+
+import { PrintArea, LayerPlacement, Point, clipToPrintArea, getLayerCorners, isPointInPrintArea } from './printArea'
+import { DisplacementMap, getDisplacementBounds, renderDisplacedLayer } from './displacement'
+import { drawWarpedImage } from './meshWarp'
+import { Canvas2D, ImageSourceWithSize, createCanvas2D } from './canvas'
+
+// A layer ready to draw on one mockup: image plus its effective placement, opacity and blend mode
+export interface CompositeLayer {
+  image: ImageSourceWithSize
+  placement: LayerPlacement // Effective position and transform on the mockup
+  opacity: number // 0-100
+  blendMode: GlobalCompositeOperation
+}
+
+// Blend modes a layer can use, in menu order (also the ones POST /api/render accepts)
+export const BLEND_MODES: GlobalCompositeOperation[] = [
+  'source-over',
+  'multiply',
+  'screen',
+  'overlay',
+  'darken',
+  'lighten',
+  'color-dodge',
+  'color-burn',
+  'hard-light',
+  'soft-light',
+]
+
+// Pixels at or below this alpha (0-255) are treated as empty when hit testing
+const HIT_ALPHA_THRESHOLD = 16
+
+// Everything drawn for one mockup, in mockup pixels (the background's size)
+export interface CompositeScene {
+  background: ImageSourceWithSize // Mockup photo, recoloured for a colourway if needed
+  layers: CompositeLayer[] // Back to front
+  printArea: PrintArea | null
+  displacementMap: DisplacementMap | null
+  displacementStrength: number // Mockup px
+}
+
+/**
+ * Largest size with the same aspect ratio that fits in maxWidth × maxHeight (may upscale)
+ */
+export const getFitSize = (width: number, height: number, maxWidth: number, maxHeight: number): { width: number; height: number } => {
+  const ratio = Math.min(maxWidth / width, maxHeight / height)
+  return { width: Math.max(1, Math.round(width * ratio)), height: Math.max(1, Math.round(height * ratio)) }
+}
+
+/**
+ * Draw a layer image centered at `position` (mockup space) onto a canvas scaled by scaleX/scaleY,
+ * applying the transform's perspective/mesh warp if any. With a displacement map the layer is
+ * warped along the fabric; strength is in mockup px.
+ */
+export const drawLayerImage = (
+  ctx: Canvas2D,
+  image: ImageSourceWithSize,
+  transform: LayerPlacement,
+  position: { x: number; y: number },
+  scaleX: number,
+  scaleY: number,
+  displacementMap: DisplacementMap | null,
+  displacementStrength: number
+): void => {
+  const paint = (target: Canvas2D) => {
+    target.translate(position.x * scaleX, position.y * scaleY)
+    target.rotate((transform.rotation * Math.PI) / 180)
+    target.scale(transform.scale * transform.scaleX * scaleX, transform.scale * transform.scaleY * scaleY)
+    if (transform.warp) {
+      drawWarpedImage(target, image, transform.warp)
+    } else {
+      target.drawImage(image, -image.width / 2, -image.height / 2)
+    }
+  }
+
+  if (!displacementMap || displacementStrength <= 0) {
+    paint(ctx)
+    return
+  }
+
+  const { width, height } = ctx.canvas
+  const strength = displacementStrength * scaleX
+  const corners = getLayerCorners({ ...transform, ...position }, image.width, image.height)
+    .map(corner => ({ x: corner.x * scaleX, y: corner.y * scaleY }))
+  const bounds = getDisplacementBounds(corners, strength, width, height)
+  if (bounds.width === 0 || bounds.height === 0) return
+
+  const displaced = renderDisplacedLayer(displacementMap, width, height, bounds, strength, paint)
+  if (displaced) ctx.drawImage(displaced, bounds.x, bounds.y)
+}
+
+/**
+ * Draw one layer: clipped to the print area, with its blend mode and opacity. scaleX/scaleY map
+ * mockup pixels to the canvas (1 for full size).
+ */
+export const drawCompositeLayer = (
+  ctx: Canvas2D,
+  layer: CompositeLayer,
+  printArea: PrintArea | null,
+  displacementMap: DisplacementMap | null,
+  displacementStrength: number,
+  scaleX = 1,
+  scaleY = 1
+): void => {
+  ctx.save()
+  if (printArea) clipToPrintArea(ctx, printArea, scaleX, scaleY)
+  ctx.globalCompositeOperation = layer.blendMode
+  ctx.globalAlpha = layer.opacity / 100
+  drawLayerImage(ctx, layer.image, layer.placement, layer.placement, scaleX, scaleY, displacementMap, displacementStrength)
+  ctx.restore()
+}
+
+/**
+ * Render a scene onto a canvas of any size: the target size is the context's canvas, and the
+ * scene is scaled from mockup pixels to it, so previews go through exactly the export steps
+ */
+export const renderScene = (ctx: Canvas2D, scene: CompositeScene): void => {
+  const { width, height } = ctx.canvas
+  const scaleX = width / scene.background.width
+  const scaleY = height / scene.background.height
+
+  ctx.clearRect(0, 0, width, height)
+  ctx.drawImage(scene.background, 0, 0, width, height)
+  scene.layers.forEach(layer =>
+    drawCompositeLayer(ctx, layer, scene.printArea, scene.displacementMap, scene.displacementStrength, scaleX, scaleY)
+  )
+}
+
+/**
+ * Render a scene onto a new canvas, at the mockup's full size unless a target size is given
+ */
+export const composeMockup = (
+  scene: CompositeScene,
+  width = scene.background.width,
+  height = scene.background.height
+): Canvas2D | null => {
+  const ctx = createCanvas2D(width, height)
+  if (!ctx) return null
+
+  renderScene(ctx, scene)
+  return ctx
+}
+
+/**
+ * Dashed outline around a layer's (rotated) box, for highlighting the active layer in previews
+ */
+export const drawLayerOutline = (
+  ctx: Canvas2D,
+  layer: Pick<CompositeLayer, 'image' | 'placement'>,
+  strokeStyle: string,
+  scaleX: number,
+  scaleY: number
+): void => {
+  const corners = getLayerCorners({ ...layer.placement, warp: null }, layer.image.width, layer.image.height)
+
+  ctx.save()
+  ctx.strokeStyle = strokeStyle
+  ctx.lineWidth = 3
+  ctx.setLineDash([5, 5])
+  ctx.beginPath()
+  corners.forEach((corner, i) => {
+    if (i === 0) ctx.moveTo(corner.x * scaleX, corner.y * scaleY)
+    else ctx.lineTo(corner.x * scaleX, corner.y * scaleY)
+  })
+  ctx.closePath()
+  ctx.stroke()
+  ctx.restore()
+}
+
+/**
+ * Map a mockup point into a layer's image pixels by inverting its position, rotation and scale
+ */
+export const toLayerImagePoint = (layer: Pick<CompositeLayer, 'image' | 'placement'>, point: Point): Point => {
+  const { placement, image } = layer
+  const radians = (-placement.rotation * Math.PI) / 180
+  const dx = point.x - placement.x
+  const dy = point.y - placement.y
+  const scaleX = placement.scale * placement.scaleX
+  const scaleY = placement.scale * placement.scaleY
+  return {
+    x: (dx * Math.cos(radians) - dy * Math.sin(radians)) / scaleX + image.width / 2,
+    y: (dx * Math.sin(radians) + dy * Math.cos(radians)) / scaleY + image.height / 2,
+  }
+}
+
+/**
+ * Whether a layer shows a visible pixel at a mockup point. Points outside the (rotated) image
+ * box are rejected first; otherwise the layer is drawn into a 1×1 canvas at the point and its
+ * alpha is read back, so warps and transparent areas count exactly as rendered.
+ */
+export const hitTestLayer = (layer: CompositeLayer, point: Point, printArea: PrintArea | null = null): boolean => {
+  if (layer.opacity <= 0) return false
+  if (printArea && !isPointInPrintArea(printArea, point)) return false
+
+  if (layer.placement.warp) {
+    // No closed-form inverse for warps: use the bounding box of the warped outline
+    const corners = getLayerCorners(layer.placement, layer.image.width, layer.image.height)
+    const xs = corners.map(corner => corner.x)
+    const ys = corners.map(corner => corner.y)
+    if (point.x < Math.min(...xs) || point.x > Math.max(...xs) || point.y < Math.min(...ys) || point.y > Math.max(...ys)) {
+      return false
+    }
+  } else {
+    const imagePoint = toLayerImagePoint(layer, point)
+    if (imagePoint.x < 0 || imagePoint.y < 0 || imagePoint.x >= layer.image.width || imagePoint.y >= layer.image.height) {
+      return false
+    }
+  }
+
+  const ctx = createCanvas2D(1, 1, { willReadFrequently: true })
+  if (!ctx) return true
+  ctx.translate(-Math.floor(point.x), -Math.floor(point.y))
+  drawLayerImage(ctx, layer.image, layer.placement, layer.placement, 1, 1, null, 0)
+  return ctx.getImageData(0, 0, 1, 1).data[3] > HIT_ALPHA_THRESHOLD
+}
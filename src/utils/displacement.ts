@@ -0,0 +1,202 @@
+// Displacement utilities: warping designs along the folds and wrinkles of a mockup
+
+import { Point } from './printArea'
+import { Canvas2D, ImageSourceWithSize, createCanvas2D } from './canvas'
+
+// Direction a design is pushed at each map pixel, derived from the gradient of the
+// blurred luminance (bright ridges and dark creases). Values are normalized to -1..1.
+export interface DisplacementMap {
+  width: number
+  height: number
+  dx: Float32Array
+  dy: Float32Array
+}
+
+export interface DisplacementBounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Maps are computed at reduced resolution; folds are low-frequency anyway
+const MAX_MAP_SIZE = 1024
+// Blur radius (map px) that removes fabric texture noise but keeps folds
+const BLUR_RADIUS = 4
+
+const mapCache = new WeakMap<ImageSourceWithSize, DisplacementMap>()
+
+/**
+ * Horizontal then vertical box blur of a single-channel buffer
+ */
+const boxBlur = (values: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const temp = new Float32Array(values.length)
+  const result = new Float32Array(values.length)
+  const size = radius * 2 + 1
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0
+      for (let k = -radius; k <= radius; k++) {
+        sum += values[y * width + Math.max(0, Math.min(width - 1, x + k))]
+      }
+      temp[y * width + x] = sum / size
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0
+      for (let k = -radius; k <= radius; k++) {
+        sum += temp[Math.max(0, Math.min(height - 1, y + k)) * width + x]
+      }
+      result[y * width + x] = sum / size
+    }
+  }
+
+  return result
+}
+
+/**
+ * Build a displacement map from the luminance of an image (a mockup photo or an uploaded grayscale map)
+ */
+export const createDisplacementMap = (source: ImageSourceWithSize): DisplacementMap => {
+  const ratio = Math.min(1, MAX_MAP_SIZE / Math.max(source.width, source.height))
+  const width = Math.max(1, Math.round(source.width * ratio))
+  const height = Math.max(1, Math.round(source.height * ratio))
+
+  const ctx = createCanvas2D(width, height, { willReadFrequently: true })
+  const dx = new Float32Array(width * height)
+  const dy = new Float32Array(width * height)
+  if (!ctx) return { width, height, dx, dy }
+
+  ctx.drawImage(source, 0, 0, width, height)
+  const pixels = ctx.getImageData(0, 0, width, height).data
+
+  // Rec. 601 luminance, 0-1
+  const luminance = new Float32Array(width * height)
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = (pixels[i * 4] * 0.299 + pixels[i * 4 + 1] * 0.587 + pixels[i * 4 + 2] * 0.114) / 255
+  }
+  const blurred = boxBlur(luminance, width, height, BLUR_RADIUS)
+
+  // Central-difference gradient
+  let maxMagnitude = 0
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      const left = blurred[y * width + Math.max(0, x - 1)]
+      const right = blurred[y * width + Math.min(width - 1, x + 1)]
+      const up = blurred[Math.max(0, y - 1) * width + x]
+      const down = blurred[Math.min(height - 1, y + 1) * width + x]
+      dx[i] = (right - left) / 2
+      dy[i] = (down - up) / 2
+      maxMagnitude = Math.max(maxMagnitude, Math.abs(dx[i]), Math.abs(dy[i]))
+    }
+  }
+
+  if (maxMagnitude > 0) {
+    for (let i = 0; i < dx.length; i++) {
+      dx[i] /= maxMagnitude
+      dy[i] /= maxMagnitude
+    }
+  }
+
+  return { width, height, dx, dy }
+}
+
+/**
+ * Displacement map for an image, computed once and cached
+ */
+export const getDisplacementMap = (source: ImageSourceWithSize): DisplacementMap => {
+  let map = mapCache.get(source)
+  if (!map) {
+    map = createDisplacementMap(source)
+    mapCache.set(source, map)
+  }
+  return map
+}
+
+/**
+ * Pixel bounds covering a placed layer plus the furthest it can be displaced
+ */
+export const getDisplacementBounds = (
+  corners: Point[],
+  strength: number,
+  targetWidth: number,
+  targetHeight: number
+): DisplacementBounds => {
+  const margin = Math.ceil(strength) + 1
+  const minX = Math.max(0, Math.floor(Math.min(...corners.map(p => p.x))) - margin)
+  const minY = Math.max(0, Math.floor(Math.min(...corners.map(p => p.y))) - margin)
+  const maxX = Math.min(targetWidth, Math.ceil(Math.max(...corners.map(p => p.x))) + margin)
+  const maxY = Math.min(targetHeight, Math.ceil(Math.max(...corners.map(p => p.y))) + margin)
+  return { x: minX, y: minY, width: Math.max(0, maxX - minX), height: Math.max(0, maxY - minY) }
+}
+
+/**
+ * Draw a layer into an offscreen canvas covering `bounds` and warp it with the map.
+ * `draw` paints in target canvas coordinates; `strength` is the maximum offset in target px.
+ * The returned canvas should be drawn at (bounds.x, bounds.y) with the layer's blend mode and opacity.
+ */
+export const renderDisplacedLayer = (
+  map: DisplacementMap,
+  targetWidth: number,
+  targetHeight: number,
+  bounds: DisplacementBounds,
+  strength: number,
+  draw: (ctx: Canvas2D) => void
+): HTMLCanvasElement | OffscreenCanvas | null => {
+  const ctx = createCanvas2D(Math.max(1, bounds.width), Math.max(1, bounds.height), { willReadFrequently: true })
+  if (!ctx) return null
+  const canvas = ctx.canvas
+  if (bounds.width === 0 || bounds.height === 0) return canvas
+
+  ctx.translate(-bounds.x, -bounds.y)
+  draw(ctx)
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
+
+  const { width, height } = canvas
+  const source = ctx.getImageData(0, 0, width, height)
+  const output = ctx.createImageData(width, height)
+  const src = source.data
+  const out = output.data
+  const mapScaleX = map.width / targetWidth
+  const mapScaleY = map.height / targetHeight
+
+  for (let y = 0; y < height; y++) {
+    const mapY = Math.min(map.height - 1, Math.floor((bounds.y + y) * mapScaleY))
+    for (let x = 0; x < width; x++) {
+      const mapX = Math.min(map.width - 1, Math.floor((bounds.x + x) * mapScaleX))
+      const mapIndex = mapY * map.width + mapX
+
+      // Sample the undisplaced layer bilinearly
+      const sx = x - map.dx[mapIndex] * strength
+      const sy = y - map.dy[mapIndex] * strength
+      const x0 = Math.floor(sx)
+      const y0 = Math.floor(sy)
+      const fx = sx - x0
+      const fy = sy - y0
+
+      const outIndex = (y * width + x) * 4
+      for (let channel = 0; channel < 4; channel++) {
+        let value = 0
+        for (let j = 0; j <= 1; j++) {
+          const py = y0 + j
+          if (py < 0 || py >= height) continue
+          const wy = j === 0 ? 1 - fy : fy
+          for (let i = 0; i <= 1; i++) {
+            const px = x0 + i
+            if (px < 0 || px >= width) continue
+            const wx = i === 0 ? 1 - fx : fx
+            value += src[(py * width + px) * 4 + channel] * wx * wy
+          }
+        }
+        out[outIndex + channel] = value
+      }
+    }
+  }
+
+  ctx.putImageData(output, 0, 0)
+  return canvas
+}
@@ -0,0 +1,145 @@
+// Export utilities: output format, quality and size presets for exported mockups
+
+import { DEFAULT_FILENAME_TEMPLATE } from './filenameTemplate'
+import { ImageSourceWithSize, createCanvas2D } from './canvas'
+
+type ExportCanvas = HTMLCanvasElement | OffscreenCanvas
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp'
+
+export interface ExportPreset {
+  id: string
+  name: string // Also the preset's folder in the ZIP
+  maxDimension: number | null // Long-edge limit in px (null = original size, never upscaled)
+  square: boolean // Pad to a square canvas with the background fill
+}
+
+export interface ExportSettings {
+  format: ExportFormat
+  quality: number // 1-100, ignored for PNG
+  background: string | null // Hex fill behind transparent areas (null = keep transparency)
+  presets: ExportPreset[]
+  filenameTemplate: string // See FILENAME_TOKENS
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; mimeType: string; extension: string }[] = [
+  { value: 'png', label: 'PNG', mimeType: 'image/png', extension: 'png' },
+  { value: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg' },
+  { value: 'webp', label: 'WebP', mimeType: 'image/webp', extension: 'webp' },
+]
+
+// JPEG has no alpha channel; transparent areas get this fill when no background is chosen
+const JPEG_FALLBACK_BACKGROUND = '#ffffff'
+
+const STORAGE_KEY = 'export_settings'
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'png',
+  quality: 92,
+  background: null,
+  presets: [{ id: 'original', name: 'original', maxDimension: null, square: false }],
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+}
+
+export const getFormatInfo = (format: ExportFormat) =>
+  EXPORT_FORMATS.find(info => info.value === format) ?? EXPORT_FORMATS[0]
+
+/**
+ * Load the last used export settings (defaults if none or invalid)
+ */
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY)
+    if (!data) return DEFAULT_EXPORT_SETTINGS
+    const settings = JSON.parse(data) as Partial<ExportSettings>
+    if (!EXPORT_FORMATS.some(info => info.value === settings.format) || !Array.isArray(settings.presets) || settings.presets.length === 0) {
+      return DEFAULT_EXPORT_SETTINGS
+    }
+    return { ...DEFAULT_EXPORT_SETTINGS, ...settings }
+  } catch (error) {
+    console.error('Error loading export settings:', error)
+    return DEFAULT_EXPORT_SETTINGS
+  }
+}
+
+export const saveExportSettings = (settings: ExportSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.error('Error saving export settings:', error)
+  }
+}
+
+/**
+ * Size of an image scaled down to fit `maxDimension` on its long edge
+ */
+export const getExportSize = (width: number, height: number, maxDimension: number | null): { width: number; height: number } => {
+  const ratio = maxDimension ? Math.min(1, maxDimension / Math.max(width, height)) : 1
+  return { width: Math.max(1, Math.round(width * ratio)), height: Math.max(1, Math.round(height * ratio)) }
+}
+
+/**
+ * Final canvas size of a preset for a full-size render
+ */
+export const getPresetOutputSize = (width: number, height: number, preset: ExportPreset): { width: number; height: number } => {
+  const size = getExportSize(width, height, preset.maxDimension)
+  if (!preset.square) return size
+  const side = Math.max(size.width, size.height)
+  return { width: side, height: side }
+}
+
+/**
+ * Resize a full-size render for a preset: scale to the long-edge limit, pad to square if asked,
+ * and fill transparent areas with the background
+ */
+export const renderExportImage = (source: ImageSourceWithSize, settings: ExportSettings, preset: ExportPreset): ExportCanvas | null => {
+  const size = getExportSize(source.width, source.height, preset.maxDimension)
+  const output = getPresetOutputSize(source.width, source.height, preset)
+
+  const ctx = createCanvas2D(output.width, output.height)
+  if (!ctx) return null
+  const canvas = ctx.canvas
+
+  const background = settings.background ?? (settings.format === 'jpeg' ? JPEG_FALLBACK_BACKGROUND : null)
+  if (background) {
+    ctx.fillStyle = background
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+  }
+
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(source, (canvas.width - size.width) / 2, (canvas.height - size.height) / 2, size.width, size.height)
+  return canvas
+}
+
+/**
+ * Encode a canvas in the chosen format
+ */
+export const canvasToExportBlob = (canvas: ExportCanvas, settings: ExportSettings): Promise<Blob | null> => {
+  const type = getFormatInfo(settings.format).mimeType
+  const quality = settings.quality / 100
+  // HTMLCanvasElement does not exist in workers, so test for OffscreenCanvas by its method
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality })
+  }
+  return new Promise(resolve => canvas.toBlob(resolve, type, quality))
+}
+
+/**
+ * Encode a full-size render once per size preset, in preset order
+ */
+export const encodeExportPresets = async (source: ImageSourceWithSize, settings: ExportSettings): Promise<ArrayBuffer[]> => {
+  const files: ArrayBuffer[] = []
+  for (const preset of settings.presets) {
+    const canvas = renderExportImage(source, settings, preset)
+    const blob = canvas && await canvasToExportBlob(canvas, settings)
+    if (!blob) throw new Error(`Could not encode the ${preset.name} image`)
+    files.push(await blob.arrayBuffer())
+  }
+  return files
+}
+
+/**
+ * ZIP folder for a preset (its name without characters that are invalid in paths)
+ */
+export const getPresetFolder = (preset: ExportPreset): string =>
+  preset.name.trim().replace(/[\\/:*?"<>|]/g, '_') || preset.id
@@ -0,0 +1,96 @@
+// Export worker utilities: rendering export images on a bounded pool of Web Workers
+
+import type { ExportJob, ExportWorkerResponse } from '../workers/exportWorker'
+
+// Each worker holds a full-size canvas while rendering, so keep the pool small
+const MAX_EXPORT_WORKERS = 4
+
+export interface ExportWorkerPool {
+  size: number
+  render: (job: Omit<ExportJob, 'id'>) => Promise<ArrayBuffer[]>
+  terminate: () => void
+}
+
+export const canUseExportWorkers = (): boolean =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined'
+
+/**
+ * Workers to start: one core is left for the page, at most MAX_EXPORT_WORKERS
+ */
+export const getExportWorkerCount = (): number =>
+  Math.max(1, Math.min((navigator.hardwareConcurrency || 2) - 1, MAX_EXPORT_WORKERS))
+
+const createAbortError = () => new DOMException('Export cancelled', 'AbortError')
+
+/**
+ * Start `size` export workers. `render` waits for an idle worker, so at most `size` mockups are
+ * in flight; `terminate` stops every worker and rejects pending renders with an AbortError.
+ */
+export const createExportWorkerPool = (size: number): ExportWorkerPool => {
+  const workers = Array.from({ length: size }, () =>
+    new Worker(new URL('../workers/exportWorker.ts', import.meta.url), { type: 'module' })
+  )
+  const idle = [...workers]
+  const waiting: ((worker: Worker) => void)[] = []
+  const pending = new Map<number, { resolve: (files: ArrayBuffer[]) => void; reject: (error: unknown) => void }>()
+  const running = new Map<Worker, number>() // Worker → job id
+  let nextId = 0
+  let terminated = false
+
+  const release = (worker: Worker) => {
+    running.delete(worker)
+    const next = waiting.shift()
+    if (next) next(worker)
+    else idle.push(worker)
+  }
+
+  const acquire = () => new Promise<Worker>(resolve => {
+    const worker = idle.pop()
+    if (worker) resolve(worker)
+    else waiting.push(resolve)
+  })
+
+  const settle = (worker: Worker, settleJob: (job: { resolve: (files: ArrayBuffer[]) => void; reject: (error: unknown) => void }) => void) => {
+    const id = running.get(worker)
+    const job = id !== undefined ? pending.get(id) : undefined
+    if (id !== undefined) pending.delete(id)
+    release(worker)
+    if (job) settleJob(job)
+  }
+
+  workers.forEach(worker => {
+    worker.onmessage = (event: MessageEvent<ExportWorkerResponse>) => {
+      const response = event.data
+      settle(worker, job => 'error' in response ? job.reject(new Error(response.error)) : job.resolve(response.files))
+    }
+    // Script load failures and uncaught errors inside the worker
+    worker.onerror = (event) => {
+      event.preventDefault()
+      settle(worker, job => job.reject(new Error(event.message || 'Export worker failed')))
+    }
+  })
+
+  const render = async (job: Omit<ExportJob, 'id'>): Promise<ArrayBuffer[]> => {
+    const worker = await acquire()
+    if (terminated) throw createAbortError()
+
+    const id = nextId++
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject })
+      running.set(worker, id)
+      worker.postMessage({ ...job, id }, [job.background, ...job.layers.map(layer => layer.image)])
+    })
+  }
+
+  const terminate = () => {
+    if (terminated) return
+    terminated = true
+    workers.forEach(worker => worker.terminate())
+    pending.forEach(job => job.reject(createAbortError()))
+    pending.clear()
+    // Wake renders still waiting for a worker so they can see the pool is gone
+    waiting.splice(0).forEach(resume => resume(workers[0]))
+  }
+
+  return { size, render, terminate }
+}
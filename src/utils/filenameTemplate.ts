@@ -0,0 +1,78 @@
+// Filename utilities: templated names for exported files
+
+import { getColourwaySuffix } from './colourway'
+
+export interface FilenameValues {
+  mockupName: string
+  designName: string
+  index: number // 1-based mockup position
+  colour: string | null // Colourway hex (#rrggbb), null for the original
+  date: Date
+  width: number
+  height: number
+  userId: string
+}
+
+export const FILENAME_TOKENS: { token: string; description: string }[] = [
+  { token: '{mockupName}', description: 'Mockup file name' },
+  { token: '{designName}', description: 'Design (layer or batch file) name' },
+  { token: '{index}', description: 'Mockup number' },
+  { token: '{colour}', description: 'Colourway hex, empty for the original' },
+  { token: '{date}', description: 'Export date (YYYY-MM-DD)' },
+  { token: '{width}', description: 'Output width in px' },
+  { token: '{height}', description: 'Output height in px' },
+  { token: '{userId}', description: 'Your user ID' },
+]
+
+export const DEFAULT_FILENAME_TEMPLATE = 'mockup_{index}_{colour}'
+
+// Characters not allowed in file names on common platforms (and ZIP path separators)
+const INVALID_CHARS = /[\\/:*?"<>|\u0000-\u001f]/g
+const SEPARATORS = '_\\-. '
+
+/**
+ * File name without its extension
+ */
+export const getBaseName = (fileName: string) => fileName.substring(0, fileName.lastIndexOf('.')) || fileName
+
+const formatDate = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * Fill a template's tokens. Separators left dangling by empty tokens (e.g. {colour} on an
+ * original) are collapsed, and characters invalid in file names become "_".
+ */
+export const applyFilenameTemplate = (template: string, values: FilenameValues): string => {
+  const replacements: Record<string, string> = {
+    mockupName: values.mockupName,
+    designName: values.designName,
+    index: String(values.index),
+    colour: values.colour ? getColourwaySuffix(values.colour) : '',
+    date: formatDate(values.date),
+    width: String(values.width),
+    height: String(values.height),
+    userId: values.userId,
+  }
+
+  const name = template
+    .replace(/\{(\w+)\}/g, (match, token: string) => replacements[token] ?? match)
+    .replace(INVALID_CHARS, '_')
+    .replace(new RegExp(`([${SEPARATORS}])[${SEPARATORS}]+`, 'g'), '$1')
+    .replace(new RegExp(`^[${SEPARATORS}]+|[${SEPARATORS}]+$`, 'g'), '')
+
+  return name || `mockup_${values.index}`
+}
+
+/**
+ * Make a name unique within a ZIP folder by appending _2, _3, ...
+ */
+export const getUniqueName = (name: string, used: Set<string>): string => {
+  let unique = name
+  for (let n = 2; used.has(unique.toLowerCase()); n++) {
+    unique = `${name}_${n}`
+  }
+  used.add(unique.toLowerCase())
+  return unique
+}
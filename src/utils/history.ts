@@ -0,0 +1,68 @@
+// History utilities: undo/redo stacks of editor snapshots with coalescing of continuous edits
+
+export interface History<T> {
+  past: T[]
+  future: T[]
+  lastKey: string | null // Coalescing key of the most recent entry
+  lastTime: number
+}
+
+// Maximum number of undo steps kept
+export const MAX_HISTORY = 100
+// Edits with the same key closer together than this (ms) become one undo step
+export const HISTORY_COALESCE_MS = 1000
+
+export const createHistory = <T,>(): History<T> => ({
+  past: [],
+  future: [],
+  lastKey: null,
+  lastTime: 0
+})
+
+/**
+ * Record `snapshot` (the state before an edit). Consecutive edits with the same non-null
+ * key within HISTORY_COALESCE_MS (e.g. the moves of one drag) only keep the first snapshot.
+ */
+export const pushHistory = <T,>(history: History<T>, snapshot: T, key: string | null = null, now = Date.now()): History<T> => {
+  if (key !== null && key === history.lastKey && now - history.lastTime < HISTORY_COALESCE_MS) {
+    return { ...history, lastTime: now }
+  }
+  return {
+    past: [...history.past, snapshot].slice(-MAX_HISTORY),
+    future: [],
+    lastKey: key,
+    lastTime: now
+  }
+}
+
+/**
+ * Step back: returns the snapshot to restore, or null if there is nothing to undo
+ */
+export const undoHistory = <T,>(history: History<T>, current: T): { history: History<T>; snapshot: T } | null => {
+  if (history.past.length === 0) return null
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [current, ...history.future],
+      lastKey: null,
+      lastTime: 0
+    },
+    snapshot: history.past[history.past.length - 1]
+  }
+}
+
+/**
+ * Step forward: returns the snapshot to restore, or null if there is nothing to redo
+ */
+export const redoHistory = <T,>(history: History<T>, current: T): { history: History<T>; snapshot: T } | null => {
+  if (history.future.length === 0) return null
+  return {
+    history: {
+      past: [...history.past, current],
+      future: history.future.slice(1),
+      lastKey: null,
+      lastTime: 0
+    },
+    snapshot: history.future[0]
+  }
+}
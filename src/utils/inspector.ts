@@ -0,0 +1,76 @@
+// Inspector utilities: showing layer geometry in mockup px, % of the mockup or print inches
+
+import { PrintArea } from './printArea'
+import { getPrintAreaBounds } from './printExport'
+
+export type InspectorUnit = 'px' | '%' | 'in'
+
+export interface InspectorSettings {
+  unit: InspectorUnit
+  nudgeStep: number // Arrow-key step in the current unit (Shift = ×10)
+  printWidthInches: number // Physical width of the print area, for inches
+}
+
+// How a unit maps onto mockup px: value = (px - origin) / scale, per axis
+export interface UnitFrame {
+  scaleX: number // Mockup px per unit
+  scaleY: number
+  originX: number // Mockup px where the unit's 0 is
+  originY: number
+}
+
+export const INSPECTOR_UNITS: InspectorUnit[] = ['px', '%', 'in']
+
+export const DEFAULT_INSPECTOR_SETTINGS: InspectorSettings = { unit: 'px', nudgeStep: 1, printWidthInches: 12 }
+
+const STORAGE_KEY = 'inspector_settings'
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value > 0
+
+export const loadInspectorSettings = (): InspectorSettings => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY)
+    if (!data) return DEFAULT_INSPECTOR_SETTINGS
+    const settings = JSON.parse(data) as Partial<InspectorSettings>
+    return {
+      unit: INSPECTOR_UNITS.includes(settings.unit as InspectorUnit) ? settings.unit as InspectorUnit : DEFAULT_INSPECTOR_SETTINGS.unit,
+      nudgeStep: isPositive(settings.nudgeStep) ? settings.nudgeStep : DEFAULT_INSPECTOR_SETTINGS.nudgeStep,
+      printWidthInches: isPositive(settings.printWidthInches) ? settings.printWidthInches : DEFAULT_INSPECTOR_SETTINGS.printWidthInches,
+    }
+  } catch (error) {
+    console.error('Error loading inspector settings:', error)
+    return DEFAULT_INSPECTOR_SETTINGS
+  }
+}
+
+export const saveInspectorSettings = (settings: InspectorSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.error('Error saving inspector settings:', error)
+  }
+}
+
+/**
+ * Frame for a unit on a mockup: px as is, % of the mockup's width/height, or inches measured
+ * from the print area's top-left corner. Inches need a print area (null without one).
+ */
+export const getUnitFrame = (
+  unit: InspectorUnit,
+  mockupWidth: number,
+  mockupHeight: number,
+  printArea: PrintArea | null,
+  printWidthInches: number
+): UnitFrame | null => {
+  if (unit === 'px') return { scaleX: 1, scaleY: 1, originX: 0, originY: 0 }
+  if (unit === '%') return { scaleX: mockupWidth / 100, scaleY: mockupHeight / 100, originX: 0, originY: 0 }
+  if (!printArea || !isPositive(printWidthInches)) return null
+
+  const bounds = getPrintAreaBounds(printArea)
+  const pxPerInch = bounds.width / printWidthInches
+  return { scaleX: pxPerInch, scaleY: pxPerInch, originX: bounds.x, originY: bounds.y }
+}
+
+// Round a displayed value: whole px, otherwise 2 decimals
+export const roundUnitValue = (value: number, unit: InspectorUnit): number =>
+  unit === 'px' ? Math.round(value) : Math.round(value * 100) / 100
@@ -0,0 +1,181 @@
+// Warp utilities: four-corner perspective and N×M mesh warping of a layer image
+
+import type { Point } from './printArea'
+import type { Canvas2D, ImageSourceWithSize } from './canvas'
+
+export type WarpMode = 'perspective' | 'mesh'
+
+// Control points are normalized to the layer's unwarped image rect ((0, 0) = top-left,
+// (1, 1) = bottom-right) and stored row-major: (rows + 1) × (cols + 1) points.
+// Perspective always uses a 1×1 grid, i.e. the four corners TL, TR, BL, BR.
+export interface LayerWarp {
+  mode: WarpMode
+  cols: number
+  rows: number
+  points: Point[]
+}
+
+export const MAX_MESH_SIZE = 6
+
+// Triangles per axis used to approximate a perspective quad or mesh
+const MIN_SUBDIVISIONS = 16
+
+/**
+ * Create an undistorted warp grid
+ */
+export const createWarp = (mode: WarpMode, cols = 1, rows = 1): LayerWarp => {
+  const gridCols = mode === 'perspective' ? 1 : Math.max(1, Math.min(MAX_MESH_SIZE, cols))
+  const gridRows = mode === 'perspective' ? 1 : Math.max(1, Math.min(MAX_MESH_SIZE, rows))
+  const points: Point[] = []
+  for (let row = 0; row <= gridRows; row++) {
+    for (let col = 0; col <= gridCols; col++) {
+      points.push({ x: col / gridCols, y: row / gridRows })
+    }
+  }
+  return { mode, cols: gridCols, rows: gridRows, points }
+}
+
+/**
+ * Check whether a warp leaves the image undistorted
+ */
+export const isIdentityWarp = (warp: LayerWarp): boolean => {
+  return warp.points.every((point, i) => {
+    const col = i % (warp.cols + 1)
+    const row = Math.floor(i / (warp.cols + 1))
+    return Math.abs(point.x - col / warp.cols) < 1e-6 && Math.abs(point.y - row / warp.rows) < 1e-6
+  })
+}
+
+/**
+ * Map a point of the unit square onto the quad TL, TR, BR, BL (projective mapping)
+ */
+const mapUnitSquareToQuad = (quad: [Point, Point, Point, Point], u: number, v: number): Point => {
+  const [p0, p1, p2, p3] = quad
+  const dx1 = p1.x - p2.x
+  const dx2 = p3.x - p2.x
+  const dx3 = p0.x - p1.x + p2.x - p3.x
+  const dy1 = p1.y - p2.y
+  const dy2 = p3.y - p2.y
+  const dy3 = p0.y - p1.y + p2.y - p3.y
+
+  const det = dx1 * dy2 - dx2 * dy1
+  const g = det !== 0 ? (dx3 * dy2 - dx2 * dy3) / det : 0
+  const h = det !== 0 ? (dx1 * dy3 - dx3 * dy1) / det : 0
+
+  const a = p1.x - p0.x + g * p1.x
+  const b = p3.x - p0.x + h * p3.x
+  const d = p1.y - p0.y + g * p1.y
+  const e = p3.y - p0.y + h * p3.y
+  const w = g * u + h * v + 1
+
+  return {
+    x: (a * u + b * v + p0.x) / w,
+    y: (d * u + e * v + p0.y) / w,
+  }
+}
+
+/**
+ * Where a point of the unwarped image (u, v in 0-1) ends up after warping
+ */
+export const getWarpPoint = (warp: LayerWarp, u: number, v: number): Point => {
+  const stride = warp.cols + 1
+
+  if (warp.mode === 'perspective') {
+    const [topLeft, topRight, bottomLeft, bottomRight] = warp.points
+    return mapUnitSquareToQuad([topLeft, topRight, bottomRight, bottomLeft], u, v)
+  }
+
+  // Mesh: bilinear interpolation inside the cell containing (u, v)
+  const col = Math.min(warp.cols - 1, Math.max(0, Math.floor(u * warp.cols)))
+  const row = Math.min(warp.rows - 1, Math.max(0, Math.floor(v * warp.rows)))
+  const fu = u * warp.cols - col
+  const fv = v * warp.rows - row
+  const topLeft = warp.points[row * stride + col]
+  const topRight = warp.points[row * stride + col + 1]
+  const bottomLeft = warp.points[(row + 1) * stride + col]
+  const bottomRight = warp.points[(row + 1) * stride + col + 1]
+
+  return {
+    x: (topLeft.x * (1 - fu) + topRight.x * fu) * (1 - fv) + (bottomLeft.x * (1 - fu) + bottomRight.x * fu) * fv,
+    y: (topLeft.y * (1 - fu) + topRight.y * fu) * (1 - fv) + (bottomLeft.y * (1 - fu) + bottomRight.y * fu) * fv,
+  }
+}
+
+/**
+ * Convert a warp to another mode or grid size, keeping its current shape
+ */
+export const resampleWarp = (warp: LayerWarp, mode: WarpMode, cols = 1, rows = 1): LayerWarp => {
+  const next = createWarp(mode, cols, rows)
+  return { ...next, points: next.points.map(point => getWarpPoint(warp, point.x, point.y)) }
+}
+
+/**
+ * Draw an image warped by `warp`, centered on the origin like `drawImage(image, -w / 2, -h / 2)`.
+ * The image is split into small triangles, each drawn with its own affine transform.
+ */
+export const drawWarpedImage = (
+  ctx: Canvas2D,
+  image: ImageSourceWithSize,
+  warp: LayerWarp
+): void => {
+  const { width, height } = image
+  const stepsX = Math.max(MIN_SUBDIVISIONS, warp.cols * 4)
+  const stepsY = Math.max(MIN_SUBDIVISIONS, warp.rows * 4)
+
+  // Warped grid in local coordinates
+  const grid: Point[][] = []
+  for (let j = 0; j <= stepsY; j++) {
+    const row: Point[] = []
+    for (let i = 0; i <= stepsX; i++) {
+      const point = getWarpPoint(warp, i / stepsX, j / stepsY)
+      row.push({ x: (point.x - 0.5) * width, y: (point.y - 0.5) * height })
+    }
+    grid.push(row)
+  }
+
+  // Grow each triangle by about one device pixel so neighbours overlap without seams
+  const m = ctx.getTransform()
+  const pixelSize = 1 / Math.sqrt(Math.abs(m.a * m.d - m.b * m.c) || 1)
+
+  const drawTriangle = (s0: Point, s1: Point, s2: Point, d0: Point, d1: Point, d2: Point) => {
+    const denom = (s1.x - s0.x) * (s2.y - s0.y) - (s2.x - s0.x) * (s1.y - s0.y)
+    if (denom === 0) return
+
+    const a = ((d1.x - d0.x) * (s2.y - s0.y) - (d2.x - d0.x) * (s1.y - s0.y)) / denom
+    const b = ((d1.y - d0.y) * (s2.y - s0.y) - (d2.y - d0.y) * (s1.y - s0.y)) / denom
+    const c = ((d2.x - d0.x) * (s1.x - s0.x) - (d1.x - d0.x) * (s2.x - s0.x)) / denom
+    const d = ((d2.y - d0.y) * (s1.x - s0.x) - (d1.y - d0.y) * (s2.x - s0.x)) / denom
+    const e = d0.x - a * s0.x - c * s0.y
+    const f = d0.y - b * s0.x - d * s0.y
+
+    const cx = (d0.x + d1.x + d2.x) / 3
+    const cy = (d0.y + d1.y + d2.y) / 3
+    const grow = (p: Point): Point => {
+      const length = Math.hypot(p.x - cx, p.y - cy) || 1
+      return { x: p.x + ((p.x - cx) / length) * pixelSize, y: p.y + ((p.y - cy) / length) * pixelSize }
+    }
+    const [g0, g1, g2] = [grow(d0), grow(d1), grow(d2)]
+
+    ctx.save()
+    ctx.beginPath()
+    ctx.moveTo(g0.x, g0.y)
+    ctx.lineTo(g1.x, g1.y)
+    ctx.lineTo(g2.x, g2.y)
+    ctx.closePath()
+    ctx.clip()
+    ctx.transform(a, b, c, d, e, f)
+    ctx.drawImage(image, 0, 0)
+    ctx.restore()
+  }
+
+  for (let j = 0; j < stepsY; j++) {
+    for (let i = 0; i < stepsX; i++) {
+      const s00 = { x: (i / stepsX) * width, y: (j / stepsY) * height }
+      const s10 = { x: ((i + 1) / stepsX) * width, y: (j / stepsY) * height }
+      const s01 = { x: (i / stepsX) * width, y: ((j + 1) / stepsY) * height }
+      const s11 = { x: ((i + 1) / stepsX) * width, y: ((j + 1) / stepsY) * height }
+      drawTriangle(s00, s10, s01, grid[j][i], grid[j][i + 1], grid[j + 1][i])
+      drawTriangle(s10, s11, s01, grid[j][i + 1], grid[j + 1][i + 1], grid[j + 1][i])
+    }
+  }
+}
@@ -0,0 +1,176 @@
+// Print area utilities: the printable region of a mockup, in mockup pixel coordinates
+
+import type { LayerWarp } from './meshWarp'
+import type { Canvas2D } from './canvas'
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface PrintAreaRect {
+  type: 'rect'
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface PrintAreaPolygon {
+  type: 'polygon'
+  points: Point[]
+}
+
+export type PrintArea = PrintAreaRect | PrintAreaPolygon
+
+// Placement of a layer in mockup space (center position, scale and rotation)
+export interface LayerPlacement {
+  x: number
+  y: number
+  scale: number
+  scaleX: number
+  scaleY: number
+  rotation: number
+  warp?: LayerWarp | null
+}
+
+const OVERLAY_COLOR = '#22d3ee'
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value)
+
+/**
+ * Validate a print area received from storage or the server
+ */
+export const parsePrintArea = (value: unknown): PrintArea | null => {
+  if (!value || typeof value !== 'object') return null
+  const area = value as { type?: unknown; x?: unknown; y?: unknown; width?: unknown; height?: unknown; points?: unknown }
+
+  if (area.type === 'rect') {
+    const { x, y, width, height } = area
+    if (isFiniteNumber(x) && isFiniteNumber(y) && isFiniteNumber(width) && isFiniteNumber(height) && width > 0 && height > 0) {
+      return { type: 'rect', x, y, width, height }
+    }
+    return null
+  }
+
+  if (area.type === 'polygon' && Array.isArray(area.points) && area.points.length >= 3) {
+    const points = (area.points as Partial<Point>[]).filter((p): p is Point => !!p && isFiniteNumber(p.x) && isFiniteNumber(p.y))
+    return points.length >= 3 ? { type: 'polygon', points: points.map(p => ({ x: p.x, y: p.y })) } : null
+  }
+
+  return null
+}
+
+/**
+ * Outline of a print area as a list of points
+ */
+export const getPrintAreaPoints = (area: PrintArea): Point[] => {
+  if (area.type === 'polygon') return area.points
+  return [
+    { x: area.x, y: area.y },
+    { x: area.x + area.width, y: area.y },
+    { x: area.x + area.width, y: area.y + area.height },
+    { x: area.x, y: area.y + area.height },
+  ]
+}
+
+/**
+ * Begin a closed path following the print area, scaled to the target canvas
+ */
+export const tracePrintArea = (ctx: Canvas2D, area: PrintArea, scaleX = 1, scaleY = 1): void => {
+  const points = getPrintAreaPoints(area)
+  ctx.beginPath()
+  points.forEach((point, i) => {
+    if (i === 0) ctx.moveTo(point.x * scaleX, point.y * scaleY)
+    else ctx.lineTo(point.x * scaleX, point.y * scaleY)
+  })
+  ctx.closePath()
+}
+
+/**
+ * Restrict subsequent drawing to the print area (wrap in save/restore)
+ */
+export const clipToPrintArea = (ctx: Canvas2D, area: PrintArea, scaleX = 1, scaleY = 1): void => {
+  tracePrintArea(ctx, area, scaleX, scaleY)
+  ctx.clip()
+}
+
+/**
+ * Draw the print area boundary and dim everything outside it
+ */
+export const drawPrintAreaOverlay = (ctx: CanvasRenderingContext2D, area: PrintArea, scaleX = 1, scaleY = 1): void => {
+  ctx.save()
+
+  // Dim outside the print area (even-odd fill of canvas minus area)
+  ctx.beginPath()
+  ctx.rect(0, 0, ctx.canvas.width, ctx.canvas.height)
+  getPrintAreaPoints(area).forEach((point, i) => {
+    if (i === 0) ctx.moveTo(point.x * scaleX, point.y * scaleY)
+    else ctx.lineTo(point.x * scaleX, point.y * scaleY)
+  })
+  ctx.closePath()
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.25)'
+  ctx.fill('evenodd')
+
+  tracePrintArea(ctx, area, scaleX, scaleY)
+  ctx.strokeStyle = OVERLAY_COLOR
+  ctx.lineWidth = 2
+  ctx.setLineDash([6, 4])
+  ctx.stroke()
+  ctx.restore()
+}
+
+/**
+ * Check whether a mockup-space point lies inside the print area
+ */
+export const isPointInPrintArea = (area: PrintArea, point: Point): boolean => {
+  if (area.type === 'rect') {
+    return point.x >= area.x && point.x <= area.x + area.width &&
+      point.y >= area.y && point.y <= area.y + area.height
+  }
+
+  // Ray casting
+  let inside = false
+  const points = area.points
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i]
+    const b = points[j]
+    if ((a.y > point.y) !== (b.y > point.y) &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/**
+ * Corners of a placed layer in mockup space (accounts for rotation).
+ * Warped layers return every warp control point, which encloses the warped image.
+ */
+export const getLayerCorners = (placement: LayerPlacement, width: number, height: number): Point[] => {
+  const scaledWidth = width * placement.scale * placement.scaleX
+  const scaledHeight = height * placement.scale * placement.scaleY
+  const radians = (placement.rotation * Math.PI) / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+
+  const outline = placement.warp
+    ? placement.warp.points
+    : [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }]
+
+  return outline.map(point => {
+    const dx = (point.x - 0.5) * scaledWidth
+    const dy = (point.y - 0.5) * scaledHeight
+    return {
+      x: placement.x + dx * cos - dy * sin,
+      y: placement.y + dx * sin + dy * cos,
+    }
+  })
+}
+
+/**
+ * Check whether a placed layer extends past the print area
+ */
+export const exceedsPrintArea = (area: PrintArea, placement: LayerPlacement, width: number, height: number): boolean => {
+  return getLayerCorners(placement, width, height).some(corner => !isPointInPrintArea(area, corner))
+}
@@ -0,0 +1,116 @@
+// Print file utilities: mapping the print area to a physical output size and embedding DPI in PNGs
+
+import { PrintArea, getPrintAreaPoints } from './printArea'
+import { crc32 } from './crc32'
+
+export type PrintUnit = 'in' | 'cm'
+
+export const CM_PER_INCH = 2.54
+
+// Largest canvas side browsers reliably allocate
+export const MAX_PRINT_SIDE = 16384
+
+// Layers below this fraction of the target DPI are flagged (small rounding is tolerated)
+const LOW_RESOLUTION_TOLERANCE = 0.95
+
+export interface PrintBounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Mockup px → print px: scale, then offset (print area centered in the output)
+export interface PrintMapping {
+  scale: number
+  offsetX: number
+  offsetY: number
+}
+
+export const toInches = (value: number, unit: PrintUnit): number => unit === 'cm' ? value / CM_PER_INCH : value
+
+export const fromInches = (inches: number, unit: PrintUnit): number => unit === 'cm' ? inches * CM_PER_INCH : inches
+
+/**
+ * Bounding box of the print area in mockup pixels
+ */
+export const getPrintAreaBounds = (area: PrintArea): PrintBounds => {
+  const points = getPrintAreaPoints(area)
+  const minX = Math.min(...points.map(p => p.x))
+  const minY = Math.min(...points.map(p => p.y))
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...points.map(p => p.x)) - minX,
+    height: Math.max(...points.map(p => p.y)) - minY,
+  }
+}
+
+/**
+ * Output size in pixels for a physical size
+ */
+export const getPrintPixelSize = (widthInches: number, heightInches: number, dpi: number): { width: number; height: number } => ({
+  width: Math.max(1, Math.round(widthInches * dpi)),
+  height: Math.max(1, Math.round(heightInches * dpi)),
+})
+
+/**
+ * Fit the print area bounds into the output (uniform scale, centered)
+ */
+export const getPrintMapping = (bounds: PrintBounds, outputWidth: number, outputHeight: number): PrintMapping => {
+  const scale = Math.min(outputWidth / bounds.width, outputHeight / bounds.height)
+  return {
+    scale,
+    offsetX: (outputWidth - bounds.width * scale) / 2 - bounds.x * scale,
+    offsetY: (outputHeight - bounds.height * scale) / 2 - bounds.y * scale,
+  }
+}
+
+/**
+ * Resolution a layer's source pixels end up at in the print: each source pixel spans
+ * scale × scaleX/Y mockup pixels, and each mockup pixel `mapping.scale` print pixels
+ */
+export const getLayerEffectiveDpi = (
+  transform: { scale: number; scaleX: number; scaleY: number },
+  mapping: PrintMapping,
+  dpi: number
+): number => {
+  const magnification = transform.scale * Math.max(transform.scaleX, transform.scaleY) * mapping.scale
+  return magnification > 0 ? dpi / magnification : Infinity
+}
+
+export const isLowResolution = (effectiveDpi: number, dpi: number): boolean =>
+  effectiveDpi < dpi * LOW_RESOLUTION_TOLERANCE
+
+/**
+ * Embed the resolution in a PNG as a pHYs chunk (pixels per metre), replacing any existing one
+ */
+export const setPngDpi = async (png: Blob, dpi: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer())
+  const view = new DataView(bytes.buffer)
+
+  // pHYs chunk: length, type, X and Y pixels per unit, unit (1 = metre), CRC
+  const pixelsPerMetre = Math.round(dpi / (CM_PER_INCH / 100))
+  const chunk = new Uint8Array(21)
+  const chunkView = new DataView(chunk.buffer)
+  chunkView.setUint32(0, 9)
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4) // "pHYs"
+  chunkView.setUint32(8, pixelsPerMetre)
+  chunkView.setUint32(12, pixelsPerMetre)
+  chunk[16] = 1
+  chunkView.setUint32(17, crc32(chunk.subarray(4, 17)))
+
+  // Copy the signature and chunks, inserting pHYs right after IHDR (it must precede IDAT)
+  const parts: Uint8Array<ArrayBuffer>[] = [bytes.subarray(0, 8)]
+  let offset = 8
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+    const end = offset + 12 + length
+    if (type !== 'pHYs') parts.push(bytes.subarray(offset, end))
+    if (type === 'IHDR') parts.push(chunk)
+    offset = end
+  }
+
+  return new Blob(parts, { type: 'image/png' })
+}
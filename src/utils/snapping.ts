@@ -0,0 +1,174 @@
+// Snapping utilities: aligning a dragged layer to the mockup centre, print-area edges, other layers and a grid
+
+import { PrintArea, LayerPlacement, getLayerCorners, getPrintAreaPoints } from './printArea'
+
+export interface SnapSettings {
+  enabled: boolean // Snap to centre lines, print-area edges and other layers
+  gridSize: number // Grid spacing in mockup px (0 = no grid)
+}
+
+// A guide line at `position` mockup px: vertical for 'x', horizontal for 'y'
+export interface SnapGuide {
+  axis: 'x' | 'y'
+  position: number
+}
+
+// Lines that layer edges and centres snap to, per axis
+export interface SnapTargets {
+  x: number[]
+  y: number[]
+}
+
+// A layer that others can snap to
+export interface SnapLayer {
+  placement: LayerPlacement
+  width: number // Image px
+  height: number
+}
+
+// Snap distance in screen px (converted to mockup px by the caller's zoom)
+export const SNAP_THRESHOLD = 6
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = { enabled: true, gridSize: 0 }
+
+const STORAGE_KEY = 'snap_settings'
+
+export const loadSnapSettings = (): SnapSettings => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY)
+    if (!data) return DEFAULT_SNAP_SETTINGS
+    const settings = JSON.parse(data) as Partial<SnapSettings>
+    return {
+      enabled: typeof settings.enabled === 'boolean' ? settings.enabled : DEFAULT_SNAP_SETTINGS.enabled,
+      gridSize: typeof settings.gridSize === 'number' && settings.gridSize > 0 ? settings.gridSize : 0,
+    }
+  } catch (error) {
+    console.error('Error loading snap settings:', error)
+    return DEFAULT_SNAP_SETTINGS
+  }
+}
+
+export const saveSnapSettings = (settings: SnapSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.error('Error saving snap settings:', error)
+  }
+}
+
+/**
+ * Axis-aligned box around a placed layer (rotation and warp included)
+ */
+const getLayerBox = (layer: SnapLayer) => {
+  const corners = getLayerCorners(layer.placement, layer.width, layer.height)
+  const xs = corners.map(corner => corner.x)
+  const ys = corners.map(corner => corner.y)
+  const left = Math.min(...xs)
+  const right = Math.max(...xs)
+  const top = Math.min(...ys)
+  const bottom = Math.max(...ys)
+  return { x: [left, (left + right) / 2, right], y: [top, (top + bottom) / 2, bottom] }
+}
+
+/**
+ * Snap lines for a mockup: its centre lines, the print area's edges and centre, and the edges
+ * and centres of the other layers
+ */
+export const getSnapTargets = (
+  mockupWidth: number,
+  mockupHeight: number,
+  printArea: PrintArea | null,
+  otherLayers: SnapLayer[]
+): SnapTargets => {
+  const targets: SnapTargets = { x: [mockupWidth / 2], y: [mockupHeight / 2] }
+
+  if (printArea) {
+    const points = getPrintAreaPoints(printArea)
+    const xs = points.map(point => point.x)
+    const ys = points.map(point => point.y)
+    targets.x.push(Math.min(...xs), (Math.min(...xs) + Math.max(...xs)) / 2, Math.max(...xs))
+    targets.y.push(Math.min(...ys), (Math.min(...ys) + Math.max(...ys)) / 2, Math.max(...ys))
+  }
+
+  otherLayers.forEach(layer => {
+    const box = getLayerBox(layer)
+    targets.x.push(...box.x)
+    targets.y.push(...box.y)
+  })
+
+  return targets
+}
+
+// Closest line within `threshold` of any edge, as the move that aligns them
+const findSnap = (edges: number[], lines: number[], threshold: number): { delta: number; line: number } | null => {
+  let best: { delta: number; line: number } | null = null
+  for (const edge of edges) {
+    for (const line of lines) {
+      const delta = line - edge
+      if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+        best = { delta, line }
+      }
+    }
+  }
+  return best
+}
+
+/**
+ * Snap a dragged layer's position: its left/centre/right and top/centre/bottom go to the nearest
+ * target line within `threshold` mockup px (with a guide to draw); otherwise its centre goes to the
+ * grid. Axes set to false in `axes` (e.g. Shift-locked) are left alone.
+ */
+export const snapPosition = (
+  layer: SnapLayer,
+  targets: SnapTargets,
+  settings: SnapSettings,
+  threshold: number,
+  axes: { x: boolean; y: boolean } = { x: true, y: true }
+): { x: number; y: number; guides: SnapGuide[] } => {
+  let { x, y } = layer.placement
+  const guides: SnapGuide[] = []
+  const box = getLayerBox(layer)
+
+  const snapX = settings.enabled && axes.x ? findSnap(box.x, targets.x, threshold) : null
+  if (snapX) {
+    x += snapX.delta
+    guides.push({ axis: 'x', position: snapX.line })
+  } else if (settings.gridSize > 0 && axes.x) {
+    x = Math.round(x / settings.gridSize) * settings.gridSize
+  }
+
+  const snapY = settings.enabled && axes.y ? findSnap(box.y, targets.y, threshold) : null
+  if (snapY) {
+    y += snapY.delta
+    guides.push({ axis: 'y', position: snapY.line })
+  } else if (settings.gridSize > 0 && axes.y) {
+    y = Math.round(y / settings.gridSize) * settings.gridSize
+  }
+
+  return { x, y, guides }
+}
+
+/**
+ * Draw guide lines across the canvas (scaleX/scaleY map mockup px to canvas px)
+ */
+export const drawSnapGuides = (ctx: CanvasRenderingContext2D, guides: SnapGuide[], scaleX: number, scaleY: number): void => {
+  if (guides.length === 0) return
+  const { width, height } = ctx.canvas
+
+  ctx.save()
+  ctx.strokeStyle = '#f472b6'
+  ctx.lineWidth = 1
+  ctx.setLineDash([4, 3])
+  ctx.beginPath()
+  guides.forEach(guide => {
+    if (guide.axis === 'x') {
+      ctx.moveTo(guide.position * scaleX, 0)
+      ctx.lineTo(guide.position * scaleX, height)
+    } else {
+      ctx.moveTo(0, guide.position * scaleY)
+      ctx.lineTo(width, guide.position * scaleY)
+    }
+  })
+  ctx.stroke()
+  ctx.restore()
+}
@@ -0,0 +1,217 @@
+// Text layer utilities: font loading and rasterizing styled text for the canvas
+
+export type TextAlign = 'left' | 'center' | 'right'
+
+export interface TextStyle {
+  text: string
+  fontFamily: string
+  fontSize: number // px in mockup space
+  fontWeight: number // 100-900
+  fill: string
+  strokeColor: string
+  strokeWidth: number // px, 0 = no outline
+  letterSpacing: number // px added between characters
+  align: TextAlign
+  arc: number // degrees the baseline bends through: 0 = straight, > 0 arches up, < 0 curves down
+}
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  text: 'Your Text',
+  fontFamily: 'Arial',
+  fontSize: 120,
+  fontWeight: 700,
+  fill: '#ffffff',
+  strokeColor: '#000000',
+  strokeWidth: 0,
+  letterSpacing: 0,
+  align: 'center',
+  arc: 0,
+}
+
+// Fonts available on every platform (no download needed)
+export const SYSTEM_FONTS = ['Arial', 'Helvetica', 'Georgia', 'Times New Roman', 'Courier New', 'Verdana', 'Impact']
+
+// Google web fonts loaded on demand
+export const WEB_FONTS = ['Roboto', 'Oswald', 'Anton', 'Bebas Neue', 'Graduate', 'Pacifico', 'Lobster', 'Permanent Marker']
+
+const LINE_HEIGHT = 1.2
+const ASCENT = 0.9
+const DESCENT = 0.3
+
+const requestedWebFonts = new Set<string>()
+
+const toCssFont = (style: TextStyle): string =>
+  `${style.fontWeight} ${style.fontSize}px "${style.fontFamily}"`
+
+/**
+ * Inject the stylesheet for a Google web font (once per family)
+ */
+const requestWebFont = (family: string): void => {
+  if (!WEB_FONTS.includes(family) || requestedWebFonts.has(family)) return
+  requestedWebFonts.add(family)
+
+  const link = document.createElement('link')
+  link.rel = 'stylesheet'
+  link.href = `https://fonts.googleapis.com/css2?family=${encodeURIComponent(family)}:wght@100;200;300;400;500;600;700;800;900&display=swap`
+  document.head.appendChild(link)
+}
+
+/**
+ * Check whether the font needed by a text style is ready to draw
+ */
+export const isTextFontLoaded = (style: TextStyle): boolean => {
+  if (SYSTEM_FONTS.includes(style.fontFamily)) return true
+  return document.fonts.check(toCssFont(style), style.text || 'A')
+}
+
+/**
+ * Load the font needed by a text style; resolves even if loading fails (fallback font is used)
+ */
+export const loadTextFont = async (style: TextStyle): Promise<void> => {
+  requestWebFont(style.fontFamily)
+  try {
+    await document.fonts.load(toCssFont(style), style.text || 'A')
+  } catch (error) {
+    console.error(`Failed to load font ${style.fontFamily}:`, error)
+  }
+}
+
+/**
+ * Register a user-uploaded TTF/OTF/WOFF/WOFF2 file and return its font family name
+ */
+export const loadFontFile = async (file: File): Promise<string> => {
+  const family = file.name.substring(0, file.name.lastIndexOf('.')) || file.name
+  const face = new FontFace(family, await file.arrayBuffer())
+  await face.load()
+  document.fonts.add(face)
+  return family
+}
+
+/**
+ * Short display name for a text layer, taken from its first line
+ */
+export const getTextLayerName = (style: TextStyle): string => {
+  const firstLine = style.text.split('\n')[0].trim()
+  if (!firstLine) return 'Text'
+  return firstLine.length > 24 ? `${firstLine.substring(0, 24)}…` : firstLine
+}
+
+interface Glyph {
+  char: string
+  x: number
+  y: number
+  rotation: number
+}
+
+/**
+ * Rasterize a text style to a transparent canvas sized to fit the text.
+ * The result is drawn like any image layer, centered on the layer transform.
+ */
+export const renderTextLayer = (style: TextStyle): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return canvas
+
+  const font = toCssFont(style)
+  ctx.font = font
+
+  const lines = style.text.split('\n')
+  const lineHeight = style.fontSize * LINE_HEIGHT
+  const arcRadians = (Math.max(-330, Math.min(330, style.arc)) * Math.PI) / 180
+
+  // Measure each line as a run of characters separated by letter spacing
+  const measured = lines.map(line => {
+    const chars = Array.from(line)
+    const widths = chars.map(char => ctx.measureText(char).width)
+    const width = widths.reduce((sum, w) => sum + w, 0) + style.letterSpacing * Math.max(0, chars.length - 1)
+    return { chars, widths, width }
+  })
+  const blockWidth = Math.max(0, ...measured.map(line => line.width))
+
+  // Lay out glyph centers on the baseline (straight or bent around a circle)
+  const glyphs: Glyph[] = []
+  measured.forEach(({ chars, widths, width }, lineIndex) => {
+    const baseline = lineIndex * lineHeight
+    let lineStart = -width / 2
+    if (arcRadians === 0 && style.align === 'left') lineStart = -blockWidth / 2
+    if (arcRadians === 0 && style.align === 'right') lineStart = blockWidth / 2 - width
+
+    // Signed radius: positive centers the circle below the text (arch), negative above (smile)
+    const radius = arcRadians !== 0 && width > 0 ? width / arcRadians : 0
+
+    let cursor = lineStart
+    chars.forEach((char, i) => {
+      const center = cursor + widths[i] / 2
+      if (radius === 0) {
+        glyphs.push({ char, x: center, y: baseline, rotation: 0 })
+      } else {
+        const angle = center / radius
+        glyphs.push({
+          char,
+          x: radius * Math.sin(angle),
+          y: baseline + radius * (1 - Math.cos(angle)),
+          rotation: angle,
+        })
+      }
+      cursor += widths[i] + style.letterSpacing
+    })
+  })
+
+  // Bounding box of every rotated glyph cell
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  glyphs.forEach(glyph => {
+    const halfWidth = ctx.measureText(glyph.char).width / 2 || style.fontSize / 4
+    const corners = [
+      [-halfWidth, -style.fontSize * ASCENT],
+      [halfWidth, -style.fontSize * ASCENT],
+      [-halfWidth, style.fontSize * DESCENT],
+      [halfWidth, style.fontSize * DESCENT],
+    ]
+    const cos = Math.cos(glyph.rotation)
+    const sin = Math.sin(glyph.rotation)
+    corners.forEach(([cx, cy]) => {
+      const x = glyph.x + cx * cos - cy * sin
+      const y = glyph.y + cx * sin + cy * cos
+      minX = Math.min(minX, x)
+      minY = Math.min(minY, y)
+      maxX = Math.max(maxX, x)
+      maxY = Math.max(maxY, y)
+    })
+  })
+
+  if (glyphs.length === 0) {
+    // Keep an empty but drawable canvas so the layer stays selectable
+    canvas.width = Math.max(1, Math.round(style.fontSize))
+    canvas.height = Math.max(1, Math.round(style.fontSize * LINE_HEIGHT))
+    return canvas
+  }
+
+  const padding = Math.ceil(style.strokeWidth) + 2
+  canvas.width = Math.ceil(maxX - minX) + padding * 2
+  canvas.height = Math.ceil(maxY - minY) + padding * 2
+
+  // Resizing resets the context state
+  ctx.font = font
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'alphabetic'
+  ctx.lineJoin = 'round'
+  ctx.fillStyle = style.fill
+  ctx.strokeStyle = style.strokeColor
+  ctx.lineWidth = style.strokeWidth * 2 // Half the stroke is hidden under the fill
+
+  glyphs.forEach(glyph => {
+    ctx.save()
+    ctx.translate(glyph.x - minX + padding, glyph.y - minY + padding)
+    ctx.rotate(glyph.rotation)
+    if (style.strokeWidth > 0) {
+      ctx.strokeText(glyph.char, 0, 0)
+    }
+    ctx.fillText(glyph.char, 0, 0)
+    ctx.restore()
+  })
+
+  return canvas
+}
@@ -0,0 +1,71 @@
+// Tile cache utilities: preview renders memoised per tile and reused until the tile's inputs change
+
+import { CompositeScene, renderScene, composeMockup } from './compositor'
+
+export type TileBitmap = ImageBitmap | HTMLCanvasElement | OffscreenCanvas
+
+interface TileEntry {
+  key: string
+  bitmap: TileBitmap
+}
+
+export interface TileCache {
+  get: (tileId: string, key: string) => TileBitmap | null
+  set: (tileId: string, key: string, bitmap: TileBitmap) => void
+  prune: (tileIds: Set<string>) => void // Drop tiles that no longer exist
+}
+
+// Stable ids for images, maps and masks, so cache keys change when an object is replaced
+const objectIds = new WeakMap<object, number>()
+let nextObjectId = 1
+
+export const getObjectId = (value: object | null | undefined): number => {
+  if (!value) return 0
+  let id = objectIds.get(value)
+  if (id === undefined) {
+    id = nextObjectId++
+    objectIds.set(value, id)
+  }
+  return id
+}
+
+const releaseBitmap = (bitmap: TileBitmap) => {
+  if ('close' in bitmap) bitmap.close()
+}
+
+export const createTileCache = (): TileCache => {
+  const entries = new Map<string, TileEntry>()
+
+  return {
+    get: (tileId, key) => {
+      const entry = entries.get(tileId)
+      return entry && entry.key === key ? entry.bitmap : null
+    },
+    set: (tileId, key, bitmap) => {
+      const previous = entries.get(tileId)
+      if (previous && previous.bitmap !== bitmap) releaseBitmap(previous.bitmap)
+      entries.set(tileId, { key, bitmap })
+    },
+    prune: (tileIds) => {
+      entries.forEach((entry, tileId) => {
+        if (tileIds.has(tileId)) return
+        releaseBitmap(entry.bitmap)
+        entries.delete(tileId)
+      })
+    },
+  }
+}
+
+/**
+ * Render a scene at preview size into a standalone bitmap (an ImageBitmap where OffscreenCanvas is supported)
+ */
+export const renderTileBitmap = (scene: CompositeScene, width: number, height: number): TileBitmap | null => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return null
+    renderScene(ctx, scene)
+    return canvas.transferToImageBitmap()
+  }
+  return composeMockup(scene, width, height)?.canvas ?? null
+}
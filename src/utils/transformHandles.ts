@@ -0,0 +1,158 @@
+// Transform handle utilities: on-canvas scale, stretch and rotate handles around a layer's box
+
+import { LayerPlacement, Point, getLayerCorners } from './printArea'
+
+// Corners scale uniformly, edges stretch one axis, 'rotate' sits above the top edge
+export type TransformHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'rotate'
+
+export interface HandlePosition {
+  handle: TransformHandle
+  x: number // Canvas px
+  y: number
+}
+
+// Handle size and rotate handle distance from the box, in canvas px
+export const HANDLE_RADIUS = 5
+const ROTATE_HANDLE_DISTANCE = 24
+
+// Same limits as the sliders and wheel/pinch zoom
+const MIN_SCALE = 0.05
+const MAX_SCALE = 3
+const MIN_AXIS_SCALE = 0.1
+const MAX_AXIS_SCALE = 3
+
+// Shift snaps rotation to this step (degrees)
+const ROTATION_SNAP = 15
+
+export const HANDLE_CURSORS: Record<TransformHandle, string> = {
+  nw: 'nwse-resize',
+  se: 'nwse-resize',
+  ne: 'nesw-resize',
+  sw: 'nesw-resize',
+  n: 'ns-resize',
+  s: 'ns-resize',
+  e: 'ew-resize',
+  w: 'ew-resize',
+  rotate: 'crosshair',
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 })
+
+// Point relative to the layer center, in the layer's unrotated axes
+const toLocal = (placement: LayerPlacement, point: Point): Point => {
+  const radians = (-placement.rotation * Math.PI) / 180
+  const dx = point.x - placement.x
+  const dy = point.y - placement.y
+  return { x: dx * Math.cos(radians) - dy * Math.sin(radians), y: dx * Math.sin(radians) + dy * Math.cos(radians) }
+}
+
+/**
+ * Handle positions in canvas px for a layer of `width` × `height` image px. scaleX/scaleY map
+ * mockup px to the canvas. Warps are ignored: handles follow the unwarped box.
+ */
+export const getTransformHandles = (
+  placement: LayerPlacement,
+  width: number,
+  height: number,
+  scaleX: number,
+  scaleY: number
+): HandlePosition[] => {
+  const [nw, ne, se, sw] = getLayerCorners({ ...placement, warp: null }, width, height)
+    .map(corner => ({ x: corner.x * scaleX, y: corner.y * scaleY }))
+  const n = midpoint(nw, ne)
+
+  // Rotate handle: outward from the top edge, perpendicular to it
+  const radians = (placement.rotation * Math.PI) / 180
+  const rotate = { x: n.x + Math.sin(radians) * ROTATE_HANDLE_DISTANCE, y: n.y - Math.cos(radians) * ROTATE_HANDLE_DISTANCE }
+
+  return [
+    { handle: 'nw', ...nw },
+    { handle: 'n', ...n },
+    { handle: 'ne', ...ne },
+    { handle: 'e', ...midpoint(ne, se) },
+    { handle: 'se', ...se },
+    { handle: 's', ...midpoint(se, sw) },
+    { handle: 'sw', ...sw },
+    { handle: 'w', ...midpoint(sw, nw) },
+    { handle: 'rotate', ...rotate },
+  ]
+}
+
+/**
+ * Handle under a canvas point (with some slack around each handle), null if none
+ */
+export const hitTestHandles = (handles: HandlePosition[], x: number, y: number): TransformHandle | null =>
+  handles.find(position => Math.hypot(position.x - x, position.y - y) <= HANDLE_RADIUS * 2)?.handle ?? null
+
+/**
+ * Transform changes for dragging a handle from `start` to `point` (mockup px), relative to the
+ * placement when the drag began. Scaling is about the layer center; `snap` rounds rotation.
+ */
+export const getHandleDragUpdates = (
+  handle: TransformHandle,
+  placement: LayerPlacement,
+  start: Point,
+  point: Point,
+  snap: boolean
+): Partial<Pick<LayerPlacement, 'scale' | 'scaleX' | 'scaleY' | 'rotation'>> => {
+  const startLocal = toLocal(placement, start)
+  const local = toLocal(placement, point)
+
+  if (handle === 'rotate') {
+    const delta = (Math.atan2(local.y, local.x) - Math.atan2(startLocal.y, startLocal.x)) * 180 / Math.PI
+    let rotation = placement.rotation + delta
+    if (snap) rotation = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP
+    return { rotation: Math.round(((rotation % 360) + 360) % 360) }
+  }
+
+  if (handle === 'e' || handle === 'w') {
+    if (Math.abs(startLocal.x) < 1) return {}
+    return { scaleX: clamp(placement.scaleX * Math.abs(local.x / startLocal.x), MIN_AXIS_SCALE, MAX_AXIS_SCALE) }
+  }
+
+  if (handle === 'n' || handle === 's') {
+    if (Math.abs(startLocal.y) < 1) return {}
+    return { scaleY: clamp(placement.scaleY * Math.abs(local.y / startLocal.y), MIN_AXIS_SCALE, MAX_AXIS_SCALE) }
+  }
+
+  const startDistance = Math.hypot(startLocal.x, startLocal.y)
+  if (startDistance < 1) return {}
+  return { scale: clamp(placement.scale * Math.hypot(local.x, local.y) / startDistance, MIN_SCALE, MAX_SCALE) }
+}
+
+/**
+ * Selection box, rotate stem and handles of the active layer (canvas px)
+ */
+export const drawTransformHandles = (ctx: CanvasRenderingContext2D, handles: HandlePosition[], strokeStyle: string): void => {
+  const find = (handle: TransformHandle) => handles.find(position => position.handle === handle)!
+
+  ctx.save()
+  ctx.strokeStyle = strokeStyle
+  ctx.fillStyle = '#ffffff'
+  ctx.lineWidth = 1.5
+
+  ctx.beginPath()
+  ;(['nw', 'ne', 'se', 'sw'] as TransformHandle[]).forEach((handle, i) => {
+    const { x, y } = find(handle)
+    if (i === 0) ctx.moveTo(x, y)
+    else ctx.lineTo(x, y)
+  })
+  ctx.closePath()
+  ctx.moveTo(find('n').x, find('n').y)
+  ctx.lineTo(find('rotate').x, find('rotate').y)
+  ctx.stroke()
+
+  handles.forEach(({ handle, x, y }) => {
+    ctx.beginPath()
+    if (handle === 'rotate') {
+      ctx.arc(x, y, HANDLE_RADIUS, 0, Math.PI * 2)
+    } else {
+      ctx.rect(x - HANDLE_RADIUS, y - HANDLE_RADIUS, HANDLE_RADIUS * 2, HANDLE_RADIUS * 2)
+    }
+    ctx.fill()
+    ctx.stroke()
+  })
+  ctx.restore()
+}
@@ -0,0 +1,160 @@
+// ZIP utilities: writing an archive entry by entry so finished files never pile up in memory
+
+import { crc32 } from './crc32'
+
+export interface ZipWriter {
+  addFile: (name: string, data: Uint8Array) => Promise<void>
+  close: () => Promise<void>
+}
+
+// Where archive bytes go: a file on disk (File System Access API) or in-memory blob parts
+export interface ZipSink {
+  write: (chunk: Uint8Array) => Promise<void>
+  close: () => Promise<void>
+  abort: () => Promise<void>
+}
+
+interface SaveFilePickerWindow {
+  showSaveFilePicker?: (options: {
+    suggestedName: string
+    types: { description: string; accept: Record<string, string[]> }[]
+  }) => Promise<FileSystemFileHandle>
+}
+
+// Without ZIP64 records, sizes/offsets are 32-bit and entry counts 16-bit
+const MAX_ZIP_OFFSET = 0xffffffff
+const MAX_ZIP_ENTRIES = 0xffff
+
+// General purpose flag: file names are UTF-8
+const UTF8_FLAG = 0x0800
+
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+})
+
+/**
+ * Write a ZIP to `write`. Entries are stored uncompressed: exported images are already
+ * compressed, and stored entries can be written as soon as each file is ready.
+ */
+export const createZipWriter = (write: (chunk: Uint8Array) => Promise<void>): ZipWriter => {
+  const encoder = new TextEncoder()
+  const centralDirectory: Uint8Array[] = []
+  const { time, date } = toDosDateTime(new Date())
+  let offset = 0
+  let entryCount = 0
+
+  const addFile = async (name: string, data: Uint8Array) => {
+    const nameBytes = encoder.encode(name)
+    const crc = crc32(data)
+    if (entryCount + 1 > MAX_ZIP_ENTRIES || offset + 30 + nameBytes.length + data.length > MAX_ZIP_OFFSET) {
+      throw new Error('Archive too large: split the export into smaller batches')
+    }
+
+    const header = new Uint8Array(30 + nameBytes.length)
+    const view = new DataView(header.buffer)
+    view.setUint32(0, 0x04034b50, true) // Local file header signature
+    view.setUint16(4, 20, true) // Version needed to extract
+    view.setUint16(6, UTF8_FLAG, true)
+    view.setUint16(8, 0, true) // Method: stored
+    view.setUint16(10, time, true)
+    view.setUint16(12, date, true)
+    view.setUint32(14, crc, true)
+    view.setUint32(18, data.length, true) // Compressed size
+    view.setUint32(22, data.length, true) // Uncompressed size
+    view.setUint16(26, nameBytes.length, true)
+    view.setUint16(28, 0, true) // Extra field length
+    header.set(nameBytes, 30)
+
+    const entry = new Uint8Array(46 + nameBytes.length)
+    const entryView = new DataView(entry.buffer)
+    entryView.setUint32(0, 0x02014b50, true) // Central directory header signature
+    entryView.setUint16(4, 20, true) // Version made by
+    entryView.setUint16(6, 20, true) // Version needed to extract
+    entryView.setUint16(8, UTF8_FLAG, true)
+    entryView.setUint16(10, 0, true)
+    entryView.setUint16(12, time, true)
+    entryView.setUint16(14, date, true)
+    entryView.setUint32(16, crc, true)
+    entryView.setUint32(20, data.length, true)
+    entryView.setUint32(24, data.length, true)
+    entryView.setUint16(28, nameBytes.length, true)
+    // Extra, comment, disk number, internal/external attributes stay 0
+    entryView.setUint32(42, offset, true) // Local header offset
+    entry.set(nameBytes, 46)
+
+    await write(header)
+    await write(data)
+    centralDirectory.push(entry)
+    offset += header.length + data.length
+    entryCount++
+  }
+
+  const close = async () => {
+    const directorySize = centralDirectory.reduce((sum, entry) => sum + entry.length, 0)
+    if (offset + directorySize > MAX_ZIP_OFFSET) {
+      throw new Error('Archive too large: split the export into smaller batches')
+    }
+    for (const entry of centralDirectory) {
+      await write(entry)
+    }
+
+    const end = new Uint8Array(22)
+    const view = new DataView(end.buffer)
+    view.setUint32(0, 0x06054b50, true) // End of central directory signature
+    view.setUint16(8, entryCount, true) // Entries on this disk
+    view.setUint16(10, entryCount, true) // Total entries
+    view.setUint32(12, directorySize, true)
+    view.setUint32(16, offset, true) // Central directory offset
+    await write(end)
+  }
+
+  return { addFile, close }
+}
+
+/**
+ * Destination for a downloaded ZIP. Where supported the user picks a file and the archive is
+ * streamed to disk; otherwise chunks are collected as blob parts and downloaded at the end.
+ * Must be called from a user gesture (before any await) for the file picker to open.
+ * Resolves to null if the user dismisses the picker.
+ */
+export const openZipSink = async (suggestedName: string): Promise<ZipSink | null> => {
+  const { showSaveFilePicker } = window as unknown as SaveFilePickerWindow
+
+  if (showSaveFilePicker) {
+    try {
+      const handle = await showSaveFilePicker({
+        suggestedName,
+        types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }]
+      })
+      const writable = await handle.createWritable()
+      return {
+        write: (chunk) => writable.write(chunk as Uint8Array<ArrayBuffer>),
+        close: () => writable.close(),
+        abort: () => writable.abort()
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null
+      console.error('Save file picker failed, falling back to download:', error)
+    }
+  }
+
+  let parts: Blob[] = []
+  return {
+    write: async (chunk) => {
+      parts.push(new Blob([chunk as Uint8Array<ArrayBuffer>]))
+    },
+    close: async () => {
+      const url = URL.createObjectURL(new Blob(parts, { type: 'application/zip' }))
+      parts = []
+      const a = document.createElement('a')
+      a.href = url
+      a.download = suggestedName
+      a.click()
+      URL.revokeObjectURL(url)
+    },
+    abort: async () => {
+      parts = []
+    }
+  }
+}
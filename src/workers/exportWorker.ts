@@ -0,0 +1,38 @@
+// Export worker: composites one mockup off the main thread and encodes it for every size preset
+
+import { CompositeLayer, CompositeScene, composeMockup } from '../utils/compositor'
+import { ExportSettings, encodeExportPresets } from '../utils/exportOptions'
+
+// A mockup scene with its images as transferable bitmaps
+export interface ExportJob extends CompositeScene {
+  id: number
+  background: ImageBitmap // Mockup photo, already recoloured for the colourway
+  layers: (CompositeLayer & { image: ImageBitmap })[]
+  settings: ExportSettings
+}
+
+// Encoded files in preset order (buffers are transferred back), or why the job failed
+export type ExportWorkerResponse =
+  | { id: number; files: ArrayBuffer[] }
+  | { id: number; error: string }
+
+// The project is type-checked against the DOM lib, so describe the worker scope we use
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ExportJob>) => void) | null
+  postMessage: (message: ExportWorkerResponse, transfer?: Transferable[]) => void
+}
+
+scope.onmessage = async (event) => {
+  const job = event.data
+  try {
+    const ctx = composeMockup(job)
+    if (!ctx) throw new Error('Could not create canvas')
+    const files = await encodeExportPresets(ctx.canvas, job.settings)
+    scope.postMessage({ id: job.id, files }, files)
+  } catch (error) {
+    scope.postMessage({ id: job.id, error: error instanceof Error ? error.message : String(error) })
+  } finally {
+    job.background.close()
+    job.layers.forEach(layer => layer.image.close())
+  }
+}